@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { KeyRound, X } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+
+interface ApiKeyFieldProps {
+  // Held in React state only; it is gone on reload and never written to storage
+  apiKey: string;
+  onChange: (apiKey: string) => void;
+}
+
+const KEY_PATTERN = /^sk-ant-[A-Za-z0-9_-]{20,200}$/;
+
+function maskApiKey(apiKey: string) {
+  return `${apiKey.slice(0, 7)}…${apiKey.slice(-4)}`;
+}
+
+// Optional "use my own Anthropic key" input for the builder
+export default function ApiKeyField({ apiKey, onChange }: ApiKeyFieldProps) {
+  const [draft, setDraft] = useState('');
+  const valid = KEY_PATTERN.test(draft.trim());
+
+  const useKey = () => {
+    onChange(draft.trim());
+    setDraft('');
+  };
+
+  if (apiKey) {
+    return (
+      <div className={`${GlassTheme.glass} rounded-lg px-4 py-3 flex items-center justify-between`}>
+        <span className={`text-sm ${GlassTheme.textMuted} flex items-center space-x-2`}>
+          <KeyRound className="w-4 h-4" />
+          <span>Using your key <code className={GlassTheme.text}>{maskApiKey(apiKey)}</code> for this session</span>
+        </span>
+        <button
+          onClick={() => onChange('')}
+          className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover} flex items-center space-x-1`}
+        >
+          <X className="w-3 h-3" />
+          <span>Forget</span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className={`block text-sm font-medium mb-3 ${GlassTheme.text}`}>Your Anthropic API key (optional)</label>
+      <div className="flex space-x-2">
+        <input
+          type="password"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && valid && useKey()}
+          placeholder="sk-ant-..."
+          autoComplete="off"
+          spellCheck={false}
+          className={`flex-1 ${GlassTheme.glass} rounded-lg px-4 py-2 ${GlassTheme.text} border-0 focus:ring-2 focus:ring-white focus:ring-opacity-30`}
+        />
+        <button
+          onClick={useKey}
+          disabled={!valid}
+          className={`${GlassTheme.secondary} px-4 py-2 rounded-lg hover:${GlassTheme.secondaryHover} disabled:opacity-50`}
+        >
+          Use key
+        </button>
+      </div>
+      <p className={`text-xs ${GlassTheme.textDim} mt-2`}>
+        Sent with each generation and used only for that request. It is never stored or logged, stays in this tab's memory and is forgotten on reload.
+      </p>
+    </div>
+  );
+}
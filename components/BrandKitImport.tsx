@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, Loader2, Palette, Upload, XCircle } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import type { CustomTheme } from '../lib/themes';
+import { BrandKitResult, MAX_LOGO_BYTES } from '../lib/brand-kit/types';
+
+interface BrandKitImportProps {
+  // Kept from the theme being edited
+  name?: string;
+  dark: boolean;
+  onImport: (theme: CustomTheme) => void;
+}
+
+// Build a custom theme from a logo (PNG or SVG), pasted hex colors and a font name
+export default function BrandKitImport({ name, dark, onImport }: BrandKitImportProps) {
+  const [logo, setLogo] = useState<{ name: string; dataUrl: string } | null>(null);
+  const [colors, setColors] = useState('');
+  const [font, setFont] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<BrandKitResult | null>(null);
+
+  const handleFile = (file?: File) => {
+    setError('');
+    if (!file) {
+      setLogo(null);
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError(`Logos can be up to ${MAX_LOGO_BYTES / 1024} KB`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setLogo({ name: file.name, dataUrl: String(reader.result) });
+    reader.onerror = () => setError('Could not read that file');
+    reader.readAsDataURL(file);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/brand-kit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ logo: logo?.dataUrl, colors, font, name, dark })
+      });
+      const imported = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(imported.error || `Request failed with status ${response.status}`);
+      }
+      setResult(imported);
+      onImport(imported.theme);
+    } catch (importError: any) {
+      setError(importError.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const inputClass = `w-full ${GlassTheme.glass} rounded-lg px-3 py-2 text-sm ${GlassTheme.text} border-0 focus:ring-2 focus:ring-white focus:ring-opacity-30`;
+
+  return (
+    <div className="space-y-3">
+      <div className={`flex items-center space-x-2 text-sm font-medium ${GlassTheme.text}`}>
+        <Palette className="w-4 h-4" />
+        <span>Import brand kit</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <label className={`${GlassTheme.secondary} px-3 py-2 rounded-lg text-xs flex items-center space-x-2 cursor-pointer hover:${GlassTheme.secondaryHover}`}>
+          <Upload className="w-4 h-4" />
+          <span className="truncate">{logo ? logo.name : 'Logo (PNG or SVG)'}</span>
+          <input type="file" accept="image/png,image/svg+xml,.png,.svg" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+        </label>
+        <input value={colors} onChange={(e) => setColors(e.target.value)} placeholder="#1E40AF, #F59E0B" className={inputClass} />
+        <input value={font} onChange={(e) => setFont(e.target.value)} placeholder="Font name (e.g. Inter)" maxLength={40} className={inputClass} />
+      </div>
+
+      <button
+        onClick={handleImport}
+        disabled={isImporting || (!logo && !colors.trim())}
+        className={`${GlassTheme.primary} px-3 py-2 rounded-lg text-xs flex items-center space-x-2 disabled:opacity-50`}
+      >
+        {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Palette className="w-4 h-4" />}
+        <span>{isImporting ? 'Reading your brand...' : 'Build theme from brand kit'}</span>
+      </button>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-1">
+            {result.palette.map(color => (
+              <span key={color} title={color} className="w-6 h-6 rounded border border-white border-opacity-20" style={{ background: color }} />
+            ))}
+          </div>
+          <ul className="space-y-1">
+            {result.contrast.map(check => (
+              <li key={check.label} className={`flex items-center space-x-2 text-xs ${GlassTheme.textMuted}`}>
+                {check.passes ? <CheckCircle className="w-3 h-3 text-green-300" /> : <XCircle className="w-3 h-3 text-red-300" />}
+                <span>{check.label}: {check.ratio}:1 ({check.level})</span>
+              </li>
+            ))}
+          </ul>
+          {result.warnings.map(warning => (
+            <p key={warning} className="flex items-start space-x-2 text-xs text-yellow-300">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>{warning}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
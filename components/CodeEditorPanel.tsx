@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Code, Save, X } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+
+interface CodeEditorPanelProps {
+  files: Record<string, string>;
+  onSave: (files: Record<string, string>, changedPaths: string[]) => void;
+  onClose: () => void;
+}
+
+const EDITABLE_FILE = /\.(tsx?|jsx?|css|json|md|html)$/;
+
+// Plain-text editor for manual changes to the generated files
+export default function CodeEditorPanel({ files, onSave, onClose }: CodeEditorPanelProps) {
+  const paths = Object.keys(files).filter(path => EDITABLE_FILE.test(path));
+  const [drafts, setDrafts] = useState<Record<string, string>>(files);
+  const [selectedFile, setSelectedFile] = useState(paths.includes('src/App.tsx') ? 'src/App.tsx' : paths[0]);
+
+  useEffect(() => {
+    setDrafts(files);
+  }, [files]);
+
+  const changedPaths = paths.filter(path => drafts[path] !== files[path]);
+
+  return (
+    <div className={`${GlassTheme.glass} rounded-2xl p-6 space-y-4`}>
+      <div className="flex items-center justify-between">
+        <h3 className={`text-lg font-semibold ${GlassTheme.text} flex items-center space-x-2`}>
+          <Code className="w-5 h-5" />
+          <span>Edit Code</span>
+        </h3>
+        <button onClick={onClose} className={`${GlassTheme.secondary} p-2 rounded-lg hover:${GlassTheme.secondaryHover}`}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {paths.map(path => (
+          <button
+            key={path}
+            onClick={() => setSelectedFile(path)}
+            className={`px-2 py-1 rounded text-xs font-mono ${
+              selectedFile === path ? GlassTheme.primary : `${GlassTheme.secondary} hover:${GlassTheme.secondaryHover}`
+            }`}
+          >
+            {path}{changedPaths.includes(path) ? ' •' : ''}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={drafts[selectedFile] ?? ''}
+        onChange={(e) => setDrafts({ ...drafts, [selectedFile]: e.target.value })}
+        spellCheck={false}
+        className={`w-full h-96 ${GlassTheme.glass} rounded-lg p-4 ${GlassTheme.text} font-mono text-xs border-0 focus:ring-2 focus:ring-white focus:ring-opacity-30 resize-y`}
+      />
+
+      <div className="flex justify-end space-x-3">
+        <button
+          onClick={() => setDrafts(files)}
+          disabled={changedPaths.length === 0}
+          className={`${GlassTheme.secondary} px-4 py-2 rounded-lg hover:${GlassTheme.secondaryHover} disabled:opacity-50`}
+        >
+          Discard
+        </button>
+        <button
+          onClick={() => onSave(drafts, changedPaths)}
+          disabled={changedPaths.length === 0}
+          className={`${GlassTheme.primary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.primaryHover} disabled:opacity-50`}
+        >
+          <Save className="w-4 h-4" />
+          <span>Save as New Version</span>
+        </button>
+      </div>
+    </div>
+  );
+}
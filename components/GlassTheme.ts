@@ -0,0 +1,14 @@
+// Clean Glass Theme (no invalid classes)
+export const GlassTheme = {
+  bg: 'bg-black',
+  glass: 'bg-white bg-opacity-5 backdrop-blur-xl border border-white border-opacity-10',
+  glassHover: 'bg-white bg-opacity-10 backdrop-blur-xl border border-white border-opacity-20',
+  primary: 'bg-white text-black',
+  primaryHover: 'bg-gray-100 text-black',
+  secondary: 'bg-white bg-opacity-10 text-white border border-white border-opacity-20',
+  secondaryHover: 'bg-white bg-opacity-20 text-white border border-white border-opacity-30',
+  accent: 'bg-gradient-to-r from-blue-500 to-purple-600 text-white',
+  text: 'text-white',
+  textMuted: 'text-white text-opacity-70',
+  textDim: 'text-white text-opacity-50'
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, ExternalLink, Eye, EyeOff, FolderOpen, GitFork, Loader2, Trash2 } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import type { GalleryItem } from '../lib/gallery';
+
+// Apps saved from this browser's owner session, published or not
+export default function MyApps() {
+  const [apps, setApps] = useState<GalleryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/my-apps')
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `Request failed with status ${response.status}`);
+        }
+        setApps(result.apps);
+      })
+      .catch(loadError => setError(loadError.message))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const changeApp = async (id: string, method: 'PATCH' | 'DELETE', body?: object) => {
+    setBusyId(id);
+    try {
+      const response = await fetch(`/api/apps/${id}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed with status ${response.status}`);
+      }
+      return result;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTogglePublished = async (app: GalleryItem) => {
+    try {
+      await changeApp(app.id, 'PATCH', { published: !app.published });
+      setApps(prev => prev.map(item => (item.id === app.id ? { ...item, published: !app.published } : item)));
+    } catch (changeError: any) {
+      alert(`Could not update this app: ${changeError.message}`);
+    }
+  };
+
+  const handleDelete = async (app: GalleryItem) => {
+    if (!window.confirm(`Delete "${app.title}"? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      await changeApp(app.id, 'DELETE');
+      setApps(prev => prev.filter(item => item.id !== app.id));
+    } catch (deleteError: any) {
+      alert(`Could not delete this app: ${deleteError.message}`);
+    }
+  };
+
+  const buttonClass = `${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover} flex items-center space-x-1 disabled:opacity-50`;
+
+  return (
+    <div className={`min-h-screen ${GlassTheme.bg} relative overflow-hidden`}>
+      <div className="absolute inset-0" style={{background: 'linear-gradient(to bottom right, #18232A, #1B2C37)'}}></div>
+
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <Link href="/" className={`inline-flex items-center space-x-2 text-sm ${GlassTheme.textMuted} hover:text-white`}>
+            <ArrowLeft className="w-4 h-4" />
+            <span>VibeCherry</span>
+          </Link>
+
+          <div className={`${GlassTheme.glass} rounded-2xl p-6`}>
+            <h1 className={`text-2xl font-bold ${GlassTheme.text} mb-2 flex items-center space-x-2`}>
+              <FolderOpen className="w-6 h-6" />
+              <span>My Apps</span>
+            </h1>
+            <p className={`text-sm ${GlassTheme.textMuted} mb-6`}>
+              Apps you saved from this browser. Clearing its cookies gives up the right to edit them.
+            </p>
+
+            {isLoading && (
+              <div className="flex justify-center py-8">
+                <Loader2 className={`w-5 h-5 animate-spin ${GlassTheme.textMuted}`} />
+              </div>
+            )}
+            {error && <p className="text-sm text-red-300">Could not load your apps: {error}</p>}
+            {!isLoading && !error && apps.length === 0 && (
+              <p className={`text-sm ${GlassTheme.textMuted} text-center py-8`}>
+                You have not saved any apps yet. <Link href="/" className="underline">Build one!</Link>
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {apps.map(app => (
+                <div key={app.id} className={`${GlassTheme.glass} rounded-lg p-4 flex flex-wrap items-center gap-4`}>
+                  {app.thumbnail && <img src={app.thumbnail} alt="" className="rounded h-14 w-24 object-cover" />}
+                  <div className="flex-1 min-w-0">
+                    <h4 className={`font-medium ${GlassTheme.text} truncate`}>{app.title}</h4>
+                    <p className={`text-xs ${GlassTheme.textMuted} flex items-center space-x-2`}>
+                      <span>{app.published ? 'Published' : 'Unpublished'}</span>
+                      <span>{new Date(app.createdAt).toLocaleDateString()}</span>
+                      <span className="flex items-center space-x-1">
+                        <GitFork className="w-3 h-3" />
+                        <span>{app.forks}</span>
+                      </span>
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <a href={`/app/${app.id}`} className={buttonClass}>
+                      <ExternalLink className="w-3 h-3" />
+                      <span>Open</span>
+                    </a>
+                    <button onClick={() => handleTogglePublished(app)} disabled={busyId === app.id} className={buttonClass}>
+                      {app.published ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                      <span>{app.published ? 'Unpublish' : 'Publish'}</span>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(app)}
+                      disabled={busyId === app.id}
+                      className="bg-red-500 bg-opacity-20 text-red-200 px-3 py-1 rounded text-sm hover:bg-opacity-30 flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
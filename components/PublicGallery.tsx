@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Users, Eye, ExternalLink, Search, GitFork, Loader2, X } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import SandboxPreview from './SandboxPreview';
+import { LAYOUTS, THEMES } from '../lib/app-generator';
+import type { GalleryItem, GallerySort } from '../lib/gallery';
+import type { StoredApp } from '../lib/storage/types';
+
+interface PublicGalleryProps {
+  // Bump to reload the first page, e.g. after publishing an app
+  refreshKey?: number;
+  // Load the app into the builder as a fork
+  onRemix: (app: StoredApp) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 12;
+
+async function fetchApp(id: string): Promise<StoredApp> {
+  const response = await fetch(`/api/apps/${id}`);
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed with status ${response.status}`);
+  }
+  return result.app;
+}
+
+// Live gallery backed by /api/public-apps with search, filters, sorting and cursor paging
+export default function PublicGallery({ refreshKey = 0, onRemix }: PublicGalleryProps) {
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [theme, setTheme] = useState('');
+  const [layout, setLayout] = useState('');
+  const [sort, setSort] = useState<GallerySort>('newest');
+  const [apps, setApps] = useState<GalleryItem[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [previewApp, setPreviewApp] = useState<StoredApp | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Only search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const loadPage = async (pageCursor: string | null, signal?: AbortSignal) => {
+    const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+    if (query) params.set('q', query);
+    if (theme) params.set('theme', theme);
+    if (layout) params.set('layout', layout);
+    if (pageCursor) params.set('cursor', pageCursor);
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/public-apps?${params.toString()}`, { signal });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed with status ${response.status}`);
+      }
+      setApps(prev => (pageCursor ? [...prev, ...result.apps] : result.apps));
+      setCursor(result.cursor);
+      setTotal(result.total);
+    } catch (loadError: any) {
+      if (loadError.name !== 'AbortError') {
+        setError(loadError.message);
+      }
+    } finally {
+      if (!signal?.aborted) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Any change to the query starts again from the first page
+  useEffect(() => {
+    const controller = new AbortController();
+    loadPage(null, controller.signal);
+    return () => controller.abort();
+  }, [query, theme, layout, sort, refreshKey]);
+
+  const withApp = async (id: string, action: (app: StoredApp) => void) => {
+    setBusyId(id);
+    try {
+      action(await fetchApp(id));
+    } catch (openError: any) {
+      alert(`Could not load this app: ${openError.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const selectClass = `${GlassTheme.glass} ${GlassTheme.text} rounded-lg px-3 py-2 text-sm bg-transparent capitalize`;
+
+  return (
+    <div className={`${GlassTheme.glass} rounded-2xl p-6`}>
+      <h3 className={`text-lg font-semibold mb-4 ${GlassTheme.text} flex items-center space-x-2`}>
+        <Users className="w-5 h-5" />
+        <span>Public Gallery</span>
+        {total > 0 && <span className={`text-sm font-normal ${GlassTheme.textMuted}`}>({total})</span>}
+      </h3>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <div className={`${GlassTheme.glass} rounded-lg px-3 py-2 flex items-center space-x-2 flex-1 min-w-48`}>
+          <Search className={`w-4 h-4 ${GlassTheme.textMuted}`} />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search titles and descriptions..."
+            className={`flex-1 bg-transparent text-sm ${GlassTheme.text} placeholder-white placeholder-opacity-50 border-0 focus:outline-none`}
+          />
+        </div>
+        <select value={theme} onChange={(e) => setTheme(e.target.value)} className={selectClass}>
+          <option value="" className="text-black">All themes</option>
+          {THEMES.map(t => <option key={t} value={t} className="text-black">{t}</option>)}
+        </select>
+        <select value={layout} onChange={(e) => setLayout(e.target.value)} className={selectClass}>
+          <option value="" className="text-black">All layouts</option>
+          {LAYOUTS.map(l => <option key={l} value={l} className="text-black">{l}</option>)}
+        </select>
+        <select value={sort} onChange={(e) => setSort(e.target.value as GallerySort)} className={selectClass}>
+          <option value="newest" className="text-black">Newest</option>
+          <option value="forks" className="text-black">Most forked</option>
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-300 mb-4">Could not load the gallery: {error}</p>}
+
+      {!isLoading && !error && apps.length === 0 && (
+        <p className={`text-sm ${GlassTheme.textMuted} text-center py-8`}>
+          {query || theme || layout ? 'No apps match these filters.' : 'No apps published yet. Save one to start the gallery!'}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {apps.map(app => (
+          <div key={app.id} className={`${GlassTheme.glass} rounded-lg p-4 hover:${GlassTheme.glassHover} transition-all`}>
+            {app.thumbnail ? (
+              <img src={app.thumbnail} alt="" className="rounded-lg h-32 w-full object-cover mb-3" />
+            ) : (
+              <div className="bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg h-32 mb-3 flex items-center justify-center">
+                <span className="text-blue-900 font-medium">{app.title}</span>
+              </div>
+            )}
+            <h4 className={`font-medium ${GlassTheme.text} mb-1 truncate`}>{app.title}</h4>
+            <p className={`text-xs ${GlassTheme.textDim} mb-1 truncate`}>{app.description}</p>
+            {app.forkedFrom && (
+              <p className={`text-xs ${GlassTheme.textDim} mb-1 truncate`}>
+                Remix of{' '}
+                <a href={`/app/${app.forkedFrom.id}`} className="underline hover:text-white">{app.forkedFrom.title}</a>
+              </p>
+            )}
+            <p className={`text-sm ${GlassTheme.textMuted} mb-2 flex items-center space-x-2`}>
+              <span>{app.theme} • {app.layout}</span>
+              <span className="flex items-center space-x-1" title={`${app.forks} ${app.forks === 1 ? 'remix' : 'remixes'}`}>
+                <GitFork className="w-3 h-3" />
+                <span>{app.forks}</span>
+              </span>
+            </p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => withApp(app.id, setPreviewApp)}
+                disabled={busyId === app.id}
+                className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover} flex items-center space-x-1 disabled:opacity-50`}
+              >
+                {busyId === app.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Eye className="w-3 h-3" />}
+                <span>Preview</span>
+              </button>
+              <button
+                onClick={() => withApp(app.id, onRemix)}
+                disabled={busyId === app.id}
+                className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover} flex items-center space-x-1 disabled:opacity-50`}
+              >
+                <GitFork className="w-3 h-3" />
+                <span>Remix</span>
+              </button>
+              <a
+                href={`/app/${app.id}`}
+                className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover} flex items-center space-x-1`}
+              >
+                <ExternalLink className="w-3 h-3" />
+                <span>Open</span>
+              </a>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className={`w-5 h-5 animate-spin ${GlassTheme.textMuted}`} />
+        </div>
+      )}
+
+      {cursor && !isLoading && (
+        <div className="flex justify-center mt-4">
+          <button
+            onClick={() => loadPage(cursor)}
+            className={`${GlassTheme.secondary} px-4 py-2 rounded-lg text-sm hover:${GlassTheme.secondaryHover}`}
+          >
+            Load more
+          </button>
+        </div>
+      )}
+
+      {previewApp && (
+        <div className="fixed inset-0 bg-black bg-opacity-80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className={`${GlassTheme.glass} rounded-2xl p-6 max-w-4xl w-full max-h-full overflow-y-auto`}>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className={`text-xl font-semibold ${GlassTheme.text}`}>{previewApp.title}</h3>
+                <p className={`text-sm ${GlassTheme.textMuted}`}>{previewApp.description}</p>
+              </div>
+              <button onClick={() => setPreviewApp(null)} className={`${GlassTheme.textMuted} hover:text-white`}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <SandboxPreview files={previewApp.files || {}} />
+            <div className="flex justify-end mt-4">
+              <button
+                onClick={() => { onRemix(previewApp); setPreviewApp(null); }}
+                className={`${GlassTheme.primary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.primaryHover}`}
+              >
+                <GitFork className="w-4 h-4" />
+                <span>Remix</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
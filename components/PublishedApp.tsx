@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowLeft, Download, Link2, Code2, Copy, Check, ExternalLink, GitFork, EyeOff, Eye, Trash2 } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import SandboxPreview from './SandboxPreview';
+import SourceFiles from './SourceFiles';
+import { downloadProject } from '../lib/download';
+import { toGeneratedApp } from '../lib/stored-app';
+import type { StoredApp } from '../lib/storage/types';
+
+interface PublishedAppProps {
+  app: StoredApp;
+  // The current session saved this app and may unpublish or delete it
+  owned?: boolean;
+}
+
+const EMBED_HEIGHT = 600;
+
+// Shareable page for one published app: details, live sandbox, embed snippet and source
+export default function PublishedApp({ app: initialApp, owned = false }: PublishedAppProps) {
+  const router = useRouter();
+  const [app, setApp] = useState(initialApp);
+  const [isUpdating, setIsUpdating] = useState(false);
+  // Empty until mounted; the sandbox also waits for it so its nonce never renders on the server
+  const [origin, setOrigin] = useState('');
+  const [copied, setCopied] = useState<'link' | 'embed' | null>(null);
+
+  useEffect(() => {
+    setOrigin(window.location.origin);
+  }, []);
+
+  const pageUrl = `${origin}/app/${app.id}`;
+  const embedUrl = `${origin}/embed/${app.id}`;
+  const embedSnippet = `<iframe src="${embedUrl}" title="${app.title.replace(/"/g, '&quot;')}" width="100%" height="${EMBED_HEIGHT}" style="border:0;border-radius:12px" loading="lazy"></iframe>`;
+
+  const copy = async (kind: 'link' | 'embed', text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(kind);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  const changeApp = async (method: 'PATCH' | 'DELETE', body?: object) => {
+    setIsUpdating(true);
+    try {
+      const response = await fetch(`/api/apps/${app.id}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `Request failed with status ${response.status}`);
+      }
+      return result;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleTogglePublished = async () => {
+    try {
+      const result = await changeApp('PATCH', { published: app.published === false });
+      setApp(result.app);
+    } catch (error: any) {
+      alert(`Could not update this app: ${error.message}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${app.title}"? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      await changeApp('DELETE');
+      router.push('/my-apps');
+    } catch (error: any) {
+      alert(`Could not delete this app: ${error.message}`);
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      await downloadProject(toGeneratedApp(app));
+    } catch (error) {
+      console.error('Download error:', error);
+      alert('Download failed. Please try again.');
+    }
+  };
+
+  return (
+    <div className={`min-h-screen ${GlassTheme.bg} relative overflow-hidden`}>
+      <div className="absolute inset-0" style={{background: 'linear-gradient(to bottom right, #18232A, #1B2C37)'}}></div>
+
+      <div className="relative z-10 container mx-auto px-6 py-8">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <Link href="/" className={`inline-flex items-center space-x-2 text-sm ${GlassTheme.textMuted} hover:text-white`}>
+            <ArrowLeft className="w-4 h-4" />
+            <span>VibeCherry</span>
+          </Link>
+
+          {owned && (
+            <div className={`${GlassTheme.glass} rounded-2xl px-6 py-4 flex flex-wrap items-center justify-between gap-3`}>
+              <span className={`text-sm ${GlassTheme.textMuted}`}>
+                {app.published === false
+                  ? 'Unpublished: only you can see this app.'
+                  : 'You published this app.'}{' '}
+                <Link href="/my-apps" className={`${GlassTheme.text} underline`}>My apps</Link>
+              </span>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleTogglePublished}
+                  disabled={isUpdating}
+                  className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm flex items-center space-x-1 hover:${GlassTheme.secondaryHover} disabled:opacity-50`}
+                >
+                  {app.published === false ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  <span>{app.published === false ? 'Publish' : 'Unpublish'}</span>
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={isUpdating}
+                  className="bg-red-500 bg-opacity-20 text-red-200 px-3 py-1 rounded text-sm flex items-center space-x-1 hover:bg-opacity-30 disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>Delete</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className={`${GlassTheme.glass} rounded-2xl p-6`}>
+            <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+              <div className="min-w-0">
+                <h1 className={`text-3xl font-bold ${GlassTheme.text} mb-2`}>{app.title}</h1>
+                <p className={`${GlassTheme.textMuted} mb-3`}>{app.description}</p>
+                {app.forkedFrom && (
+                  <p className={`text-sm ${GlassTheme.textMuted} mb-3 flex items-center space-x-1`}>
+                    <GitFork className="w-4 h-4" />
+                    <span>
+                      Remix of{' '}
+                      <Link href={`/app/${app.forkedFrom.id}`} className={`${GlassTheme.text} underline`}>{app.forkedFrom.title}</Link>
+                    </span>
+                  </p>
+                )}
+                <div className={`flex flex-wrap gap-2 text-xs ${GlassTheme.textMuted}`}>
+                  <span className={`${GlassTheme.secondary} px-2 py-1 rounded-full capitalize`}>{app.theme}</span>
+                  <span className={`${GlassTheme.secondary} px-2 py-1 rounded-full capitalize`}>{app.layout}</span>
+                  {app.pages?.length > 0 && (
+                    <span className={`${GlassTheme.secondary} px-2 py-1 rounded-full`}>{app.pages.length} pages</span>
+                  )}
+                  <span className="px-2 py-1">{app.forks || 0} {app.forks === 1 ? 'remix' : 'remixes'}</span>
+                  <span className="px-2 py-1">Published {new Date(app.createdAt).toLocaleDateString()}</span>
+                </div>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => copy('link', pageUrl)}
+                  className={`${GlassTheme.secondary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.secondaryHover}`}
+                >
+                  {copied === 'link' ? <Check className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                  <span>{copied === 'link' ? 'Copied' : 'Copy Link'}</span>
+                </button>
+                <Link
+                  href={`/?remix=${app.id}`}
+                  className={`${GlassTheme.secondary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.secondaryHover}`}
+                >
+                  <GitFork className="w-4 h-4" />
+                  <span>Remix</span>
+                </Link>
+                <button
+                  onClick={handleDownload}
+                  className={`${GlassTheme.primary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.primaryHover}`}
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Download</span>
+                </button>
+              </div>
+            </div>
+
+            {origin && <SandboxPreview files={app.files || {}} height={EMBED_HEIGHT} />}
+          </div>
+
+          {/* Embeds only serve published apps */}
+          {app.published !== false && (
+            <div className={`${GlassTheme.glass} rounded-2xl p-6 space-y-3`}>
+              <div className="flex items-center justify-between">
+                <h3 className={`text-lg font-semibold ${GlassTheme.text} flex items-center space-x-2`}>
+                  <Code2 className="w-5 h-5" />
+                  <span>Embed</span>
+                </h3>
+                <div className="flex space-x-2">
+                  <a
+                    href={embedUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className={`${GlassTheme.secondary} px-3 py-1 rounded text-xs flex items-center space-x-1 hover:${GlassTheme.secondaryHover}`}
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                    <span>Open</span>
+                  </a>
+                  <button
+                    onClick={() => copy('embed', embedSnippet)}
+                    className={`${GlassTheme.secondary} px-3 py-1 rounded text-xs flex items-center space-x-1 hover:${GlassTheme.secondaryHover}`}
+                  >
+                    {copied === 'embed' ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                    <span>{copied === 'embed' ? 'Copied' : 'Copy Snippet'}</span>
+                  </button>
+                </div>
+              </div>
+              <p className={`text-sm ${GlassTheme.textMuted}`}>Drop this iframe into docs, slides or any page to run the app live.</p>
+              <pre className={`overflow-x-auto rounded-lg border border-white border-opacity-10 p-3 text-xs font-mono ${GlassTheme.textMuted}`}>
+                {embedSnippet}
+              </pre>
+            </div>
+          )}
+
+          <SourceFiles files={app.files || {}} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Wand2, Send, Loader2, AlertCircle } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+
+export interface RefinementTurn {
+  id: string;
+  instruction: string;
+  status: 'pending' | 'applied' | 'failed';
+  summary?: string;
+  error?: string;
+}
+
+interface RefinementPanelProps {
+  thread: RefinementTurn[];
+  isRefining: boolean;
+  onSubmit: (instruction: string) => void;
+}
+
+const SUGGESTIONS = ['Add a dark mode toggle', 'Persist items to localStorage', 'Add a search filter'];
+
+// Conversation thread of follow-up change requests for the current app
+export default function RefinementPanel({ thread, isRefining, onSubmit }: RefinementPanelProps) {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = (value: string) => {
+    if (!value.trim() || isRefining) return;
+    onSubmit(value.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className={`${GlassTheme.glass} rounded-2xl p-6`}>
+      <h3 className={`text-lg font-semibold mb-4 ${GlassTheme.text} flex items-center space-x-2`}>
+        <Wand2 className="w-5 h-5" />
+        <span>Refine This App</span>
+      </h3>
+
+      {thread.length > 0 && (
+        <div className="space-y-3 mb-4 max-h-80 overflow-y-auto">
+          {thread.map(turn => (
+            <div key={turn.id} className="space-y-2">
+              <div className="flex justify-end">
+                <div className={`${GlassTheme.secondary} rounded-lg px-3 py-2 text-sm max-w-md`}>{turn.instruction}</div>
+              </div>
+              <div className="flex justify-start">
+                <div className={`${GlassTheme.glass} rounded-lg px-3 py-2 text-sm max-w-md flex items-center space-x-2`}>
+                  {turn.status === 'pending' && (
+                    <>
+                      <Loader2 className={`w-4 h-4 animate-spin ${GlassTheme.textMuted}`} />
+                      <span className={GlassTheme.textMuted}>Applying change...</span>
+                    </>
+                  )}
+                  {turn.status === 'applied' && <span className={GlassTheme.text}>✨ {turn.summary}</span>}
+                  {turn.status === 'failed' && (
+                    <>
+                      <AlertCircle className="w-4 h-4 text-red-300" />
+                      <span className="text-red-300">{turn.error || 'Could not apply this change'}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {thread.length === 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => submit(suggestion)}
+              disabled={isRefining}
+              className={`${GlassTheme.secondary} px-3 py-1 rounded-full text-xs hover:${GlassTheme.secondaryHover} disabled:opacity-50`}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-3">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit(instruction)}
+          placeholder="Describe a change... (e.g., 'add a dark mode toggle')"
+          className={`flex-1 ${GlassTheme.glass} rounded-lg px-4 py-2 ${GlassTheme.text} placeholder-white placeholder-opacity-50 border-0 focus:ring-2 focus:ring-white focus:ring-opacity-30`}
+        />
+        <button
+          onClick={() => submit(instruction)}
+          disabled={isRefining || !instruction.trim()}
+          className={`${GlassTheme.primary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.primaryHover} disabled:opacity-50`}
+        >
+          {isRefining ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          <span>Apply</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RefreshCw, Terminal, AlertCircle } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import { buildPreviewDocument, PREVIEW_MESSAGE_SOURCE, PreviewLogLevel, PreviewMessage } from '../lib/preview';
+
+interface LogEntry {
+  level: PreviewLogLevel;
+  message: string;
+}
+
+interface SandboxPreviewProps {
+  files: Record<string, string>;
+  height?: number | string;
+  showConsole?: boolean;
+}
+
+const LOG_COLORS: Record<PreviewLogLevel, string> = {
+  log: 'text-white text-opacity-70',
+  info: 'text-blue-300',
+  warn: 'text-yellow-300',
+  error: 'text-red-300'
+};
+
+// Runs the generated files inside a script-only sandboxed iframe and surfaces its console
+export default function SandboxPreview({ files, height = 480, showConsole = true }: SandboxPreviewProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+
+  const nonce = useMemo(() => Math.random().toString(36).substring(2), [files, reloadKey]);
+  const build = useMemo(() => buildPreviewDocument(files || {}, nonce), [files, nonce]);
+
+  useEffect(() => {
+    setLogs(build.errors.map(error => ({ level: 'error', message: `${error.file}: ${error.message}` })));
+  }, [build]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<PreviewMessage>) => {
+      const data = event.data;
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (!data || data.source !== PREVIEW_MESSAGE_SOURCE || data.nonce !== nonce) return;
+      if (data.type === 'ready') return;
+
+      setLogs(prev => [...prev.slice(-199), { level: data.level || 'log', message: data.message || '' }]);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [nonce]);
+
+  const errorCount = logs.filter(log => log.level === 'error').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white rounded-lg overflow-hidden">
+        <iframe
+          key={nonce}
+          ref={iframeRef}
+          title="App preview"
+          sandbox="allow-scripts allow-forms allow-modals"
+          srcDoc={build.html}
+          className="w-full border-0 block"
+          style={{ height }}
+        />
+      </div>
+
+      {showConsole && (
+        <div className={`${GlassTheme.glass} rounded-lg`}>
+          <div className="flex items-center justify-between px-3 py-2 border-b border-white border-opacity-10">
+            <div className={`flex items-center space-x-2 text-xs ${GlassTheme.textMuted}`}>
+              <Terminal className="w-3 h-3" />
+              <span>Console</span>
+              {errorCount > 0 && (
+                <span className="flex items-center space-x-1 text-red-300">
+                  <AlertCircle className="w-3 h-3" />
+                  <span>{errorCount} error{errorCount === 1 ? '' : 's'}</span>
+                </span>
+              )}
+            </div>
+            <button
+              onClick={() => setReloadKey(key => key + 1)}
+              className={`${GlassTheme.secondary} px-2 py-1 rounded text-xs flex items-center space-x-1 hover:${GlassTheme.secondaryHover}`}
+            >
+              <RefreshCw className="w-3 h-3" />
+              <span>Reload</span>
+            </button>
+          </div>
+          <div className="max-h-40 overflow-auto px-3 py-2 font-mono text-xs space-y-1">
+            {logs.length === 0 ? (
+              <p className={GlassTheme.textDim}>No console output</p>
+            ) : (
+              logs.map((log, i) => (
+                <pre key={i} className={`whitespace-pre-wrap ${LOG_COLORS[log.level] || LOG_COLORS.log}`}>{log.message}</pre>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useMemo, useState } from 'react';
+import { FileCode, Copy, Check } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+
+interface SourceFilesProps {
+  files: Record<string, string>;
+}
+
+// Read-only file browser for a project's source files
+export default function SourceFiles({ files }: SourceFilesProps) {
+  const paths = useMemo(
+    () => Object.keys(files || {}).sort((a, b) => (a === 'src/App.tsx' ? -1 : b === 'src/App.tsx' ? 1 : a.localeCompare(b))),
+    [files]
+  );
+  const [selected, setSelected] = useState(paths[0]);
+  const [copied, setCopied] = useState(false);
+  const content = files?.[selected] ?? '';
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  if (paths.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`${GlassTheme.glass} rounded-2xl p-6 space-y-4`}>
+      <div className="flex items-center justify-between">
+        <h3 className={`text-lg font-semibold ${GlassTheme.text} flex items-center space-x-2`}>
+          <FileCode className="w-5 h-5" />
+          <span>Source Files</span>
+        </h3>
+        <button
+          onClick={copy}
+          className={`${GlassTheme.secondary} px-3 py-1 rounded text-xs flex items-center space-x-1 hover:${GlassTheme.secondaryHover}`}
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {paths.map(path => (
+          <button
+            key={path}
+            onClick={() => setSelected(path)}
+            className={`px-2 py-1 rounded text-xs font-mono ${
+              selected === path ? GlassTheme.primary : `${GlassTheme.secondary} hover:${GlassTheme.secondaryHover}`
+            }`}
+          >
+            {path}
+          </button>
+        ))}
+      </div>
+
+      <pre className={`max-h-96 overflow-auto rounded-lg border border-white border-opacity-10 p-4 text-xs font-mono ${GlassTheme.textMuted}`}>
+        {content}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Moon, Sun } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import BrandKitImport from './BrandKitImport';
+import {
+  CustomTheme,
+  THEME_FONTS,
+  THEME_PALETTE_KEYS,
+  THEME_PRESETS,
+  THEME_RADII,
+  THEME_SHADOWS,
+  ThemeRadius,
+  ThemeShadow,
+  customThemeFrom,
+  fontStack,
+  withDarkMode
+} from '../lib/themes';
+
+interface ThemeBuilderProps {
+  value: CustomTheme;
+  onChange: (theme: CustomTheme) => void;
+}
+
+const RADIUS_OPTIONS = Object.keys(THEME_RADII) as ThemeRadius[];
+const SHADOW_OPTIONS = Object.keys(THEME_SHADOWS) as ThemeShadow[];
+
+// Editor for a custom theme: brand kit import, palette, font, radius, shadow and dark mode, with a live sample
+export default function ThemeBuilder({ value, onChange }: ThemeBuilderProps) {
+  const { palette } = value;
+  // Fonts from elsewhere (e.g. a saved app) stay selectable
+  const fonts = THEME_FONTS.hasOwnProperty(value.font) ? Object.keys(THEME_FONTS) : [...Object.keys(THEME_FONTS), value.font];
+
+  const update = (changes: Partial<CustomTheme>) => onChange({ ...value, ...changes });
+
+  const option = (selected: boolean) => `px-3 py-1 rounded text-xs capitalize transition-all ${
+    selected ? GlassTheme.primary : `${GlassTheme.secondary} hover:${GlassTheme.secondaryHover}`
+  }`;
+
+  return (
+    <div className={`${GlassTheme.glass} rounded-lg p-4 space-y-4`}>
+      <BrandKitImport name={value.name} dark={value.dark} onImport={onChange} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`text-xs ${GlassTheme.textMuted}`}>Start from</span>
+        {THEME_PRESETS.map(preset => (
+          <button key={preset.id} onClick={() => onChange({ ...customThemeFrom(preset.id), name: value.name })} className={option(false)}>
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-3">
+          <input
+            value={value.name || ''}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Theme name (optional)"
+            maxLength={40}
+            className={`w-full ${GlassTheme.glass} rounded-lg px-3 py-2 text-sm ${GlassTheme.text} border-0 focus:ring-2 focus:ring-white focus:ring-opacity-30`}
+          />
+
+          <div className="grid grid-cols-3 gap-2">
+            {THEME_PALETTE_KEYS.map(key => (
+              <label key={key} className={`flex items-center space-x-2 text-xs capitalize ${GlassTheme.textMuted}`}>
+                <input
+                  type="color"
+                  value={palette[key]}
+                  onChange={(e) => update({ palette: { ...palette, [key]: e.target.value.toUpperCase() } })}
+                  className="w-8 h-8 rounded border-0 bg-transparent cursor-pointer"
+                />
+                <span>{key}</span>
+              </label>
+            ))}
+          </div>
+
+          <label className={`flex items-center justify-between text-xs ${GlassTheme.textMuted}`}>
+            <span>Font</span>
+            <select
+              value={value.font}
+              onChange={(e) => update({ font: e.target.value })}
+              className={`${GlassTheme.secondary} px-2 py-1 rounded text-xs focus:outline-none`}
+            >
+              {fonts.map(font => <option key={font} value={font} className="text-black">{font}</option>)}
+            </select>
+          </label>
+
+          <div className="flex items-center justify-between">
+            <span className={`text-xs ${GlassTheme.textMuted}`}>Corners</span>
+            <div className="flex space-x-1">
+              {RADIUS_OPTIONS.map(radius => (
+                <button key={radius} onClick={() => update({ radius })} className={option(value.radius === radius)}>{radius}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className={`text-xs ${GlassTheme.textMuted}`}>Shadow</span>
+            <div className="flex space-x-1">
+              {SHADOW_OPTIONS.map(shadow => (
+                <button key={shadow} onClick={() => update({ shadow })} className={option(value.shadow === shadow)}>{shadow}</button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={() => onChange(withDarkMode(value, !value.dark))}
+            className={`${GlassTheme.secondary} px-3 py-2 rounded-lg text-xs flex items-center space-x-2 hover:${GlassTheme.secondaryHover}`}
+          >
+            {value.dark ? <Moon className="w-4 h-4" /> : <Sun className="w-4 h-4" />}
+            <span>{value.dark ? 'Dark mode' : 'Light mode'} (switching resets background, surface and text)</span>
+          </button>
+        </div>
+
+        {/* Sample rendered with the theme itself */}
+        <div
+          className="rounded-lg p-4 space-y-3"
+          style={{ background: palette.background, color: palette.foreground, fontFamily: fontStack(value.font) }}
+        >
+          <p className="text-lg font-semibold" style={{ color: palette.primary }}>{value.name || 'Your theme'}</p>
+          <div
+            className="p-4 space-y-2"
+            style={{ background: palette.surface, borderRadius: THEME_RADII[value.radius], boxShadow: THEME_SHADOWS[value.shadow] }}
+          >
+            <p className="text-sm">Cards, text and buttons use these settings.</p>
+            <p className="text-xs" style={{ color: palette.secondary }}>Secondary details look like this.</p>
+            <div className="flex items-center space-x-2">
+              <span className="px-3 py-1 text-sm text-white" style={{ background: palette.primary, borderRadius: THEME_RADII[value.radius] }}>
+                Primary
+              </span>
+              <span className="px-3 py-1 text-sm text-white" style={{ background: palette.accent, borderRadius: THEME_RADII[value.radius] }}>
+                Accent
+              </span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, GitCompare } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import { AppVersion, VersionSource } from '../lib/versions';
+import { diffLines, DiffRowType } from '../lib/diff';
+
+interface VersionHistoryProps {
+  versions: AppVersion[];
+  currentVersionId: string;
+  onRestore: (versionId: string) => void;
+}
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  generation: 'Generated',
+  refinement: 'Refined',
+  manual: 'Manual edit',
+  restore: 'Restored'
+};
+
+const ROW_COLORS: Record<DiffRowType, { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  added: { left: 'bg-white bg-opacity-5', right: 'bg-green-500 bg-opacity-20' },
+  removed: { left: 'bg-red-500 bg-opacity-20', right: 'bg-white bg-opacity-5' },
+  changed: { left: 'bg-red-500 bg-opacity-20', right: 'bg-green-500 bg-opacity-20' }
+};
+
+// Version list with a side-by-side diff between any two versions and one-click restore
+export default function VersionHistory({ versions, currentVersionId, onRestore }: VersionHistoryProps) {
+  const latest = versions[versions.length - 1];
+  const [baseId, setBaseId] = useState(versions.length > 1 ? versions[versions.length - 2].id : latest?.id);
+  const [compareId, setCompareId] = useState(latest?.id);
+  const [selectedFile, setSelectedFile] = useState('src/App.tsx');
+
+  // Follow the newest version as it is committed
+  useEffect(() => {
+    if (versions.length > 1) {
+      setBaseId(versions[versions.length - 2].id);
+    }
+    setCompareId(latest?.id);
+  }, [latest?.id]);
+
+  const base = versions.find(version => version.id === baseId) || versions[0];
+  const compare = versions.find(version => version.id === compareId) || latest;
+
+  const filePaths = useMemo(() => {
+    const paths = new Set<string>();
+    [base, compare].forEach(version => Object.keys(version?.files || {}).forEach(path => paths.add(path)));
+    return Array.from(paths).sort((a, b) => (a === 'src/App.tsx' ? -1 : b === 'src/App.tsx' ? 1 : a.localeCompare(b)));
+  }, [base, compare]);
+
+  const changedPaths = useMemo(
+    () => new Set(filePaths.filter(path => base?.files[path] !== compare?.files[path])),
+    [filePaths, base, compare]
+  );
+
+  const diff = useMemo(
+    () => diffLines(base?.files[selectedFile] || '', compare?.files[selectedFile] || ''),
+    [base, compare, selectedFile]
+  );
+
+  if (!latest) {
+    return null;
+  }
+
+  return (
+    <div className={`${GlassTheme.glass} rounded-2xl p-6 space-y-4`}>
+      <h3 className={`text-lg font-semibold ${GlassTheme.text} flex items-center space-x-2`}>
+        <History className="w-5 h-5" />
+        <span>Version History</span>
+      </h3>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {[...versions].reverse().map(version => (
+          <div key={version.id} className={`${GlassTheme.glass} rounded-lg px-3 py-2 flex items-center justify-between text-sm`}>
+            <div className="min-w-0">
+              <div className={`flex items-center space-x-2 ${GlassTheme.text}`}>
+                <span className="font-medium">v{version.number}</span>
+                <span className={`text-xs ${GlassTheme.textMuted}`}>{SOURCE_LABELS[version.source]}</span>
+                {version.id === currentVersionId && (
+                  <span className="text-xs bg-white text-black px-2 rounded-full">current</span>
+                )}
+              </div>
+              <p className={`text-xs ${GlassTheme.textDim} truncate`}>
+                {new Date(version.timestamp).toLocaleTimeString()}
+                {version.generationTime ? ` • ${(version.generationTime / 1000).toFixed(1)}s` : ''}
+                {version.prompt ? ` • ${version.prompt}` : ''}
+              </p>
+            </div>
+            <div className="flex space-x-2 flex-shrink-0 ml-3">
+              <button
+                onClick={() => { setBaseId(compare?.id); setCompareId(version.id); }}
+                className={`${GlassTheme.secondary} px-2 py-1 rounded text-xs flex items-center space-x-1 hover:${GlassTheme.secondaryHover}`}
+              >
+                <GitCompare className="w-3 h-3" />
+                <span>Compare</span>
+              </button>
+              <button
+                onClick={() => onRestore(version.id)}
+                disabled={version.id === currentVersionId}
+                className={`${GlassTheme.secondary} px-2 py-1 rounded text-xs flex items-center space-x-1 hover:${GlassTheme.secondaryHover} disabled:opacity-50`}
+              >
+                <RotateCcw className="w-3 h-3" />
+                <span>Restore</span>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={base?.id}
+              onChange={(e) => setBaseId(e.target.value)}
+              className={`${GlassTheme.glass} ${GlassTheme.text} rounded-lg px-2 py-1 bg-transparent`}
+            >
+              {versions.map(version => <option key={version.id} value={version.id} className="text-black">v{version.number}</option>)}
+            </select>
+            <span className={GlassTheme.textMuted}>→</span>
+            <select
+              value={compare?.id}
+              onChange={(e) => setCompareId(e.target.value)}
+              className={`${GlassTheme.glass} ${GlassTheme.text} rounded-lg px-2 py-1 bg-transparent`}
+            >
+              {versions.map(version => <option key={version.id} value={version.id} className="text-black">v{version.number}</option>)}
+            </select>
+            <span className={`text-xs ${GlassTheme.textMuted}`}>
+              <span className="text-green-300">+{diff.added}</span> <span className="text-red-300">-{diff.removed}</span>
+            </span>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {filePaths.map(path => (
+              <button
+                key={path}
+                onClick={() => setSelectedFile(path)}
+                className={`px-2 py-1 rounded text-xs font-mono ${
+                  selectedFile === path ? GlassTheme.primary : `${GlassTheme.secondary} hover:${GlassTheme.secondaryHover}`
+                }`}
+              >
+                {path}{changedPaths.has(path) ? ' •' : ''}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-96 overflow-auto rounded-lg border border-white border-opacity-10">
+            <table className="w-full text-xs font-mono table-fixed">
+              <tbody>
+                {diff.rows.map((row, i) => (
+                  <tr key={i}>
+                    <td className={`w-10 px-2 text-right select-none ${GlassTheme.textDim} ${ROW_COLORS[row.type].left}`}>{row.left?.number ?? ''}</td>
+                    <td className={`px-2 whitespace-pre-wrap break-all ${GlassTheme.textMuted} ${ROW_COLORS[row.type].left}`}>{row.left?.text ?? ''}</td>
+                    <td className={`w-10 px-2 text-right select-none ${GlassTheme.textDim} ${ROW_COLORS[row.type].right}`}>{row.right?.number ?? ''}</td>
+                    <td className={`px-2 whitespace-pre-wrap break-all ${GlassTheme.textMuted} ${ROW_COLORS[row.type].right}`}>{row.right?.text ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
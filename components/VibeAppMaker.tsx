@@ -1,20 +1,24 @@
-import React, { useState } from 'react';
-import { Sparkles, Code, Download, Save, Eye, Users, Zap, Heart, ArrowRight, X, Loader2, ExternalLink, Clock, AlertCircle } from 'lucide-react';
-
-// Clean Glass Theme (no invalid classes)
-const GlassTheme = {
-  bg: 'bg-black',
-  glass: 'bg-white bg-opacity-5 backdrop-blur-xl border border-white border-opacity-10',
-  glassHover: 'bg-white bg-opacity-10 backdrop-blur-xl border border-white border-opacity-20',
-  primary: 'bg-white text-black',
-  primaryHover: 'bg-gray-100 text-black',
-  secondary: 'bg-white bg-opacity-10 text-white border border-white border-opacity-20',
-  secondaryHover: 'bg-white bg-opacity-20 text-white border border-white border-opacity-30',
-  accent: 'bg-gradient-to-r from-blue-500 to-purple-600 text-white',
-  text: 'text-white',
-  textMuted: 'text-white text-opacity-70',
-  textDim: 'text-white text-opacity-50'
-};
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { Sparkles, Code, Download, Save, Zap, Heart, ArrowRight, X, Loader2, Clock, AlertCircle, History, GitFork, ShieldAlert } from 'lucide-react';
+import { GlassTheme } from './GlassTheme';
+import SandboxPreview from './SandboxPreview';
+import RefinementPanel, { RefinementTurn } from './RefinementPanel';
+import VersionHistory from './VersionHistory';
+import CodeEditorPanel from './CodeEditorPanel';
+import PublicGallery from './PublicGallery';
+import ApiKeyField from './ApiKeyField';
+import ThemeBuilder from './ThemeBuilder';
+import { downloadProject } from '../lib/download';
+import { DEFAULT_EXPORT_TARGET, EXPORT_TARGETS } from '../lib/export-targets/catalog';
+import type { ExportTargetId } from '../lib/export-targets/types';
+import { VersionedApp, commitVersion, createVersionedApp, restoreVersion, withoutHistory } from '../lib/versions';
+import { GenerationMode, LAYOUTS, THEMES } from '../lib/app-generator';
+import { toGeneratedApp } from '../lib/stored-app';
+import { CUSTOM_THEME_ID, CustomTheme, customThemeFrom } from '../lib/themes';
+import type { AppLineage, StoredApp } from '../lib/storage/types';
+import type { QuotaStatus } from '../lib/rate-limit/types';
+import { GENERATION_PHASES, GenerationPhase, extractPartialAppCode, readGenerationEvents } from '../lib/generation-events';
 
 // Questionnaire Component
 function IdeationQuestionnaire({ onComplete, onClose }: { onComplete: (idea: string) => void; onClose: () => void }) {
@@ -104,80 +108,178 @@ function IdeationQuestionnaire({ onComplete, onClose }: { onComplete: (idea: str
   );
 }
 
+// Human-readable wait for Retry-After seconds
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.ceil(seconds / 3600)} h`;
+}
+
+// JSON headers for the model routes, plus the caller's own key when they gave one
+function modelRequestHeaders(apiKey: string): Record<string, string> {
+  return apiKey
+    ? { 'Content-Type': 'application/json', 'X-Anthropic-Key': apiKey }
+    : { 'Content-Type': 'application/json' };
+}
+
 // App Builder Component
+interface BuilderConfig {
+  theme: string;
+  layout: string;
+  mode: GenerationMode;
+  customTheme?: CustomTheme;
+}
+
 interface AppBuilderProps {
   idea: string;
+  onIdeaChange: (idea: string) => void;
   onGenerate: (config: any) => void;
   theme: any;
+  // Starting selections, e.g. from a remixed app
+  initialConfig?: BuilderConfig;
+  apiKey: string;
+  onApiKeyChange: (apiKey: string) => void;
 }
 
-function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
-  const [theme, setTheme] = useState('playful');
-  const [layout, setLayout] = useState('triple');
+function AppBuilder({ idea, onIdeaChange, onGenerate, theme: GlassTheme, initialConfig, apiKey, onApiKeyChange }: AppBuilderProps) {
+  // Remixed apps saved before a theme or layout was retired start from the defaults, which the routes accept
+  const [theme, setTheme] = useState(THEMES.indexOf(initialConfig?.theme) !== -1 ? initialConfig.theme : 'playful');
+  // Kept while other presets are picked, so switching back to Custom loses nothing
+  const [customTheme, setCustomTheme] = useState<CustomTheme>(initialConfig?.customTheme || customThemeFrom('playful'));
+  const [layout, setLayout] = useState(LAYOUTS.indexOf(initialConfig?.layout) !== -1 ? initialConfig.layout : 'triple');
+  const [mode, setMode] = useState<GenerationMode>(initialConfig?.mode || 'single');
   const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [phase, setPhase] = useState<GenerationPhase | null>(null);
+  const [partialCode, setPartialCode] = useState('');
+  const [tokenCount, setTokenCount] = useState(0);
   const [timeElapsed, setTimeElapsed] = useState(0);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  // Skip the server's cache of identical requests
+  const [fresh, setFresh] = useState(false);
+
+  const loadQuota = async () => {
+    try {
+      const response = await fetch('/api/quota');
+      const result = await response.json();
+      if (result.success) {
+        setQuota(result.quota);
+      }
+    } catch (error) {
+      console.error('Quota error:', error);
+    }
+  };
 
-  const themes = ['minimal', 'playful', 'professional', 'artistic', 'techy'];
-  const layouts = ['single', 'dual', 'triple', 'quad'];
+  useEffect(() => {
+    loadQuota();
+  }, []);
+
+  const modes: { id: GenerationMode; label: string; hint: string }[] = [
+    { id: 'single', label: 'Single page', hint: 'One App.tsx, fastest' },
+    { id: 'multi', label: 'Multi-page', hint: 'Pages, shared components & routing' }
+  ];
 
   const handleGenerate = async () => {
     setIsGenerating(true);
-    setProgress(0);
+    setPhase(null);
+    setPartialCode('');
+    setTokenCount(0);
     setTimeElapsed(0);
 
-    // Progress animation
-    const progressInterval = setInterval(() => {
-      setProgress(prev => Math.min(prev + 1, 95));
-    }, 300);
-
     // Time counter
     const timeInterval = setInterval(() => {
       setTimeElapsed(prev => prev + 1);
     }, 1000);
 
+    const controller = new AbortController();
+    // Multi-page generation gets a longer server budget
+    const clientTimeout = setTimeout(() => controller.abort(), mode === 'multi' ? 70000 : 45000);
+
     try {
-      // FIX: Properly type the response
-      const response = await Promise.race([
-        fetch('/api/generate-app', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ idea, theme, layout })
-        }) as Promise<Response>,
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error('Client timeout')), 38000) // INCREASED: 38 seconds to match server
-        )
-      ]) as Response;
-      
-      clearInterval(progressInterval);
-      clearInterval(timeInterval);
-      setProgress(100);
-      
-      // FIX: Now TypeScript knows response has .json() method
-      const result = await response.json();
-      
-      if (result.success) {
-        onGenerate(result.app);
+      const response = await fetch('/api/generate-app-stream', {
+        method: 'POST',
+        headers: modelRequestHeaders(apiKey),
+        body: JSON.stringify({ idea, theme, layout, mode, fresh, ...(theme === CUSTOM_THEME_ID ? { customTheme } : {}) }),
+        signal: controller.signal
+      });
+
+      if (response.status === 429) {
+        const result = await response.json().catch(() => ({}));
+        if (result.quota) {
+          setQuota(result.quota);
+        }
+        alert(`${result.error || 'Too many requests'}. Try again in ${formatWait(result.retryAfter || 60)}.`);
+        return;
+      }
+
+      if (response.status === 422) {
+        const result = await response.json().catch(() => ({}));
+        const reasons = (result.findings || []).map(finding => `• ${finding.message}`).join('\n');
+        alert(`${result.error || 'This idea was rejected'}.\n${reasons}`);
+        return;
+      }
+
+      if (apiKey && (response.status === 400 || response.status === 401)) {
+        const result = await response.json().catch(() => ({}));
+        alert(`${result.error || 'Your API key was not accepted'}. Check it or forget it to use the server's key.`);
+        return;
+      }
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || `Generation failed with status ${response.status}`);
+      }
+
+      let rawResponse = '';
+      let generatedApp = null;
+      let streamError = null;
+
+      await readGenerationEvents(response, (event) => {
+        switch (event.type) {
+          case 'phase':
+            setPhase(event.phase);
+            if (event.phase === 'repairing') {
+              // The repaired answer replaces the rejected one
+              rawResponse = '';
+              setPartialCode('');
+            }
+            break;
+          case 'token':
+            rawResponse += event.text;
+            setTokenCount(prev => prev + 1);
+            setPartialCode(extractPartialAppCode(rawResponse));
+            break;
+          case 'done':
+            generatedApp = event.app;
+            break;
+          case 'error':
+            streamError = event.details || event.error;
+            break;
+        }
+      });
+
+      if (generatedApp) {
+        onGenerate(generatedApp);
       } else {
-        console.error('Generation failed:', result.error);
+        console.error('Generation failed:', streamError);
         alert('Generation failed. Please try again with a simpler idea.');
       }
     } catch (error: any) {
-      clearInterval(progressInterval);
-      clearInterval(timeInterval);
-      
       console.error('Generation error:', error);
-      
-      if (error.message === 'Client timeout') {
+
+      if (error.name === 'AbortError') {
         alert('Generation is taking longer than expected. Please try again with a simpler app idea.');
       } else {
         alert('Something went wrong. Please try again.');
       }
+    } finally {
+      clearTimeout(clientTimeout);
+      clearInterval(timeInterval);
+      setIsGenerating(false);
+      setPhase(null);
+      setPartialCode('');
+      setTimeElapsed(0);
+      loadQuota();
     }
-    
-    setIsGenerating(false);
-    setProgress(0);
-    setTimeElapsed(0);
   };
 
   return (
@@ -194,7 +296,7 @@ function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
           <label className={`block text-sm font-medium mb-3 ${GlassTheme.text}`}>App Idea</label>
           <textarea
             value={idea}
-            readOnly
+            onChange={(e) => onIdeaChange(e.target.value)}
             className={`w-full h-24 ${GlassTheme.glass} rounded-lg p-4 ${GlassTheme.text} border-0 focus:ring-2 focus:ring-white focus:ring-opacity-30 resize-none`}
             placeholder="Describe your app idea..."
           />
@@ -202,8 +304,8 @@ function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
 
         <div>
           <label className={`block text-sm font-medium mb-3 ${GlassTheme.text}`}>Visual Theme</label>
-          <div className="grid grid-cols-5 gap-2">
-            {themes.map(t => (
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            {THEMES.map(t => (
               <button
                 key={t}
                 onClick={() => setTheme(t)}
@@ -217,12 +319,17 @@ function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
               </button>
             ))}
           </div>
+          {theme === CUSTOM_THEME_ID && (
+            <div className="mt-3">
+              <ThemeBuilder value={customTheme} onChange={setCustomTheme} />
+            </div>
+          )}
         </div>
 
         <div>
           <label className={`block text-sm font-medium mb-3 ${GlassTheme.text}`}>Layout Style</label>
           <div className="grid grid-cols-4 gap-2">
-            {layouts.map(l => (
+            {LAYOUTS.map(l => (
               <button
                 key={l}
                 onClick={() => setLayout(l)}
@@ -238,6 +345,26 @@ function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
           </div>
         </div>
 
+        <div>
+          <label className={`block text-sm font-medium mb-3 ${GlassTheme.text}`}>Project Structure</label>
+          <div className="grid grid-cols-2 gap-2">
+            {modes.map(m => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`p-3 rounded-lg text-sm font-medium text-left transition-all ${
+                  mode === m.id
+                    ? `${GlassTheme.primary}`
+                    : `${GlassTheme.secondary} hover:${GlassTheme.secondaryHover}`
+                }`}
+              >
+                <span className="block">{m.label}</span>
+                <span className="block text-xs opacity-70">{m.hint}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* PROGRESS INDICATOR */}
         {isGenerating && (
           <div className={`${GlassTheme.glass} rounded-lg p-4 space-y-3`}>
@@ -249,20 +376,39 @@ function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
               </div>
             </div>
             
-            <div className="w-full bg-white bg-opacity-20 rounded-full h-2">
-              <div 
-                className="bg-white h-2 rounded-full transition-all duration-300"
-                style={{ width: `${progress}%` }}
-              />
+            <div className="grid grid-cols-6 gap-2">
+              {GENERATION_PHASES.map((p, i) => {
+                const currentIndex = phase ? GENERATION_PHASES.indexOf(phase) : -1;
+                return (
+                  <div key={p} className="space-y-1">
+                    <div className={`h-2 rounded-full transition-all duration-300 ${
+                      i < currentIndex ? 'bg-white' : i === currentIndex ? 'bg-white animate-pulse' : 'bg-white bg-opacity-20'
+                    }`} />
+                    <span className={`block text-xs capitalize text-center ${i <= currentIndex ? GlassTheme.text : GlassTheme.textDim}`}>{p}</span>
+                  </div>
+                );
+              })}
             </div>
-            
+
             <div className={`text-xs ${GlassTheme.textMuted} text-center`}>
-              {progress < 30 && "🤖 Claude is thinking..."}
-              {progress >= 30 && progress < 60 && "✨ Designing your app..."}
-              {progress >= 60 && progress < 90 && "🔧 Building components..."}
-              {progress >= 90 && "🎨 Adding finishing touches..."}
+              {!phase && "🤖 Connecting to Claude..."}
+              {phase === 'prompting' && (tokenCount === 0 ? "🤖 Claude is thinking..." : `✨ Writing your app... (${tokenCount} chunks received)`)}
+              {phase === 'parsing' && "🔍 Reading the generated app..."}
+              {phase === 'validating' && "🔧 Checking the generated code..."}
+              {phase === 'type-checking' && "🧪 Compiling the generated TypeScript..."}
+              {phase === 'repairing' && "🩹 Asking Claude to fix the reported errors..."}
+              {phase === 'packaging' && "🎨 Packaging project files..."}
             </div>
 
+            {partialCode && (
+              <pre
+                ref={(el) => { if (el) el.scrollTop = el.scrollHeight; }}
+                className={`${GlassTheme.glass} rounded-lg p-3 text-xs font-mono ${GlassTheme.textMuted} max-h-64 overflow-auto whitespace-pre-wrap`}
+              >
+                {partialCode}
+              </pre>
+            )}
+
             {timeElapsed > 20 && (
               <div className={`text-xs ${GlassTheme.textMuted} text-center flex items-center justify-center space-x-1`}>
                 <AlertCircle className="w-3 h-3" />
@@ -290,6 +436,32 @@ function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
           )}
         </button>
 
+        <ApiKeyField apiKey={apiKey} onChange={onApiKeyChange} />
+
+        <label className={`flex items-center justify-center space-x-2 text-xs ${GlassTheme.textMuted}`}>
+          <input type="checkbox" checked={fresh} onChange={(e) => setFresh(e.target.checked)} />
+          <span>Always generate fresh (skip results cached for identical requests)</span>
+        </label>
+
+        {apiKey ? (
+          <p className={`text-xs ${GlassTheme.textMuted} text-center`}>
+            Generations with your own key are not counted against the server quota
+          </p>
+        ) : quota && (quota.requests.limit > 0 || quota.tokens.limit > 0) && (
+          <p className={`text-xs ${GlassTheme.textMuted} text-center`}>
+            {quota.requests.limit > 0 && (
+              <span>
+                {quota.requests.remaining} of {quota.requests.limit} generations left
+                {quota.requests.retryAfterSeconds > 0 && ` (next in ${formatWait(quota.requests.retryAfterSeconds)})`}
+              </span>
+            )}
+            {quota.requests.limit > 0 && quota.tokens.limit > 0 && ' • '}
+            {quota.tokens.limit > 0 && (
+              <span>{quota.tokens.remaining.toLocaleString()} of {quota.tokens.limit.toLocaleString()} tokens left today</span>
+            )}
+          </p>
+        )}
+
         {/* SPEED TIPS */}
         <div className={`${GlassTheme.glass} rounded-lg p-4`}>
           <h4 className={`text-sm font-medium ${GlassTheme.text} mb-2`}>💡 Speed Tips:</h4>
@@ -304,10 +476,109 @@ function AppBuilder({ idea, onGenerate, theme: GlassTheme }: AppBuilderProps) {
   );
 }
 
+// Stays the same across an app's refinements and restores, but not across generations or remixes
+// (cache hits and repeat remixes reuse app ids, so those cannot tell workspaces apart)
+function workspaceId(app: VersionedApp) {
+  return app.versions?.[0]?.id || app.id;
+}
+
 // App Preview Component
-function AppPreview({ appConfig, onSave, onDownload }: { appConfig: any; onSave: (title: string) => void; onDownload: () => void }) {
-  const [title, setTitle] = useState('');
+interface AppPreviewProps {
+  appConfig: VersionedApp;
+  // Title of the app this workspace already published, if any; saving can then update it in place
+  publishedTitle?: string;
+  onSave: (title: string, updatePublished: boolean) => void;
+  onDownload: (target: ExportTargetId) => void;
+  onUpdate: (app: VersionedApp) => void;
+  apiKey: string;
+}
+
+function AppPreview({ appConfig, publishedTitle, onSave, onDownload, onUpdate, apiKey }: AppPreviewProps) {
+  const [title, setTitle] = useState(publishedTitle || '');
+  const [updatePublished, setUpdatePublished] = useState(true);
   const [showSaveModal, setShowSaveModal] = useState(false);
+  const [thread, setThread] = useState<RefinementTurn[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [exportTarget, setExportTarget] = useState<ExportTargetId>(DEFAULT_EXPORT_TARGET);
+
+  const handleRefine = async (instruction: string) => {
+    const turnId = Date.now().toString(36);
+    const history = thread.filter(turn => turn.status === 'applied').map(turn => turn.instruction);
+    const updateTurn = (changes: Partial<RefinementTurn>) =>
+      setThread(prev => prev.map(turn => turn.id === turnId ? { ...turn, ...changes } : turn));
+
+    setThread(prev => [...prev, { id: turnId, instruction, status: 'pending' }]);
+    setIsRefining(true);
+
+    try {
+      const response = await fetch('/api/refine-app', {
+        method: 'POST',
+        headers: modelRequestHeaders(apiKey),
+        body: JSON.stringify({ app: withoutHistory(appConfig), instruction, history })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        updateTurn({ status: 'applied', summary: result.summary });
+        onUpdate({
+          ...commitVersion(appConfig, {
+            source: 'refinement',
+            prompt: instruction,
+            files: result.app.files,
+            generationTime: result.app.generationTime
+          }),
+          typeCheck: result.app.typeCheck,
+          // Findings cover the whole app after the change, so they replace the previous ones
+          generation: appConfig.generation
+            ? { ...appConfig.generation, findings: result.generation.findings }
+            : result.generation
+        });
+      } else {
+        updateTurn({
+          status: 'failed',
+          error: response.status === 429
+            ? `${result.error}. Try again in ${formatWait(result.retryAfter || 60)}.`
+            : response.status === 422
+              ? `${result.error}: ${(result.findings || []).map(finding => finding.message).join('; ')}`
+              : result.details || result.error
+        });
+      }
+    } catch (error: any) {
+      console.error('Refinement error:', error);
+      updateTurn({ status: 'failed', error: 'Something went wrong. Please try again.' });
+    }
+
+    setIsRefining(false);
+  };
+
+  // Commit a version that did not come from the model, then re-run the compile gate on it
+  const updateAndTypeCheck = async (next: VersionedApp) => {
+    onUpdate({ ...next, typeCheck: undefined });
+    try {
+      const response = await fetch('/api/type-check', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ files: next.files })
+      });
+      const result = await response.json();
+      if (result.success) {
+        onUpdate({ ...next, typeCheck: result.typeCheck });
+      }
+    } catch (error) {
+      console.error('Type check error:', error);
+    }
+  };
+
+  const handleManualEdit = (files: Record<string, string>, changedPaths: string[]) => {
+    updateAndTypeCheck(commitVersion(appConfig, {
+      source: 'manual',
+      prompt: `Edited ${changedPaths.join(', ')}`,
+      files
+    }));
+    setShowEditor(false);
+  };
 
   return (
     <div className="space-y-6">
@@ -316,12 +587,38 @@ function AppPreview({ appConfig, onSave, onDownload }: { appConfig: any; onSave:
           <h3 className={`text-xl font-semibold ${GlassTheme.text}`}>Your Generated App</h3>
           <div className="flex space-x-3">
             <button
-              onClick={onDownload}
+              onClick={() => setShowEditor(!showEditor)}
+              className={`${GlassTheme.secondary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.secondaryHover}`}
+            >
+              <Code className="w-4 h-4" />
+              <span>Edit Code</span>
+            </button>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
               className={`${GlassTheme.secondary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.secondaryHover}`}
             >
-              <Download className="w-4 h-4" />
-              <span>Download</span>
+              <History className="w-4 h-4" />
+              <span>History ({appConfig.versions?.length || 0})</span>
             </button>
+            <div className="flex">
+              <select
+                value={exportTarget}
+                onChange={(e) => setExportTarget(e.target.value as ExportTargetId)}
+                title={EXPORT_TARGETS.find(target => target.id === exportTarget)?.description}
+                className={`${GlassTheme.secondary} px-2 py-2 rounded-l-lg text-sm border-r-0 focus:outline-none`}
+              >
+                {EXPORT_TARGETS.map(target => (
+                  <option key={target.id} value={target.id} className="text-black">{target.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onDownload(exportTarget)}
+                className={`${GlassTheme.secondary} px-4 py-2 rounded-r-lg flex items-center space-x-2 hover:${GlassTheme.secondaryHover}`}
+              >
+                <Download className="w-4 h-4" />
+                <span>Download</span>
+              </button>
+            </div>
             <button
               onClick={() => setShowSaveModal(true)}
               className={`${GlassTheme.primary} px-4 py-2 rounded-lg flex items-center space-x-2 hover:${GlassTheme.primaryHover}`}
@@ -332,32 +629,113 @@ function AppPreview({ appConfig, onSave, onDownload }: { appConfig: any; onSave:
           </div>
         </div>
 
+        {appConfig.generation?.path === 'fallback' && (
+          <div className="bg-yellow-500 bg-opacity-20 border border-yellow-400 border-opacity-40 rounded-lg p-4 mb-6 text-sm text-yellow-100">
+            <div className="flex items-center space-x-2 font-medium mb-1">
+              <AlertCircle className="w-4 h-4" />
+              <span>
+                {appConfig.generation.fallbackReason === 'timeout'
+                  ? 'Claude timed out, so this is a template app rather than a custom one.'
+                  : `Claude's output failed validation${appConfig.generation.repairAttempts ? ` after ${appConfig.generation.repairAttempts} repair attempt(s)` : ''}, so this is a template app rather than a custom one.`}
+              </span>
+            </div>
+            {appConfig.generation.validationErrors.length > 0 && (
+              <ul className="list-disc list-inside text-xs opacity-80 space-y-1">
+                {appConfig.generation.validationErrors.map((issue, i) => (
+                  <li key={i}><span className="font-mono">{issue.path}</span> {issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {appConfig.typeCheck && !appConfig.typeCheck.ok && (
+          <div className="bg-red-500 bg-opacity-20 border border-red-400 border-opacity-40 rounded-lg p-4 mb-6 text-sm text-red-100">
+            <div className="flex items-center space-x-2 font-medium mb-1">
+              <AlertCircle className="w-4 h-4" />
+              <span>
+                This code has {appConfig.typeCheck.diagnostics.length} TypeScript error{appConfig.typeCheck.diagnostics.length === 1 ? '' : 's'}
+                {appConfig.generation?.fixAttempts ? ' even after an automatic fix pass' : ''}. The preview may not work as expected.
+              </span>
+            </div>
+            <ul className="text-xs font-mono opacity-80 space-y-1 max-h-32 overflow-y-auto">
+              {appConfig.typeCheck.diagnostics.map((d, i) => (
+                <li key={i}>{d.file}:{d.line}:{d.column} {d.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {appConfig.generation?.findings?.length > 0 && (
+          <div className="bg-orange-500 bg-opacity-20 border border-orange-400 border-opacity-40 rounded-lg p-4 mb-6 text-sm text-orange-100">
+            <div className="flex items-center space-x-2 font-medium mb-1">
+              <ShieldAlert className="w-4 h-4" />
+              <span>Safety check flagged {appConfig.generation.findings.length} item{appConfig.generation.findings.length === 1 ? '' : 's'}</span>
+            </div>
+            <ul className="text-xs opacity-80 space-y-1 max-h-32 overflow-y-auto">
+              {appConfig.generation.findings.map((finding, i) => (
+                <li key={i}>
+                  <span className="uppercase font-semibold mr-1">{finding.severity === 'block' ? 'blocked' : finding.source === 'input' ? 'changed' : 'review'}</span>
+                  {finding.message}
+                  {finding.file && <span className="font-mono"> {finding.file}{finding.line ? `:${finding.line}` : ''}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {(appConfig.cache?.status === 'hit' || appConfig.cache?.status === 'shared') && (
+          <p className={`text-xs ${GlassTheme.textMuted} mb-4`}>
+            ⚡ {appConfig.cache.status === 'hit'
+              ? `Served from cache (generated ${new Date(appConfig.cache.cachedAt).toLocaleString()} for an identical request).`
+              : 'Shared with an identical request that was already generating.'}
+            {' '}Tick "Always generate fresh" in the builder for a new take.
+          </p>
+        )}
+
+        {appConfig.generation?.path === 'repaired' && (
+          <p className={`text-xs ${GlassTheme.textMuted} mb-4`}>
+            🩹 Claude's first answer was automatically repaired
+            {appConfig.generation.repairAttempts ? ` ${appConfig.generation.repairAttempts}× for validation errors` : ''}
+            {appConfig.generation.fixAttempts ? ` ${appConfig.generation.fixAttempts}× for compile errors` : ''}.
+          </p>
+        )}
+
         <div className={`${GlassTheme.glass} rounded-xl p-6 min-h-96`}>
           <div className="flex items-center space-x-2 mb-4">
             <div className="w-3 h-3 bg-red-500 rounded-full"></div>
             <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
             <div className="w-3 h-3 bg-green-500 rounded-full"></div>
             <span className={`ml-4 text-sm ${GlassTheme.textMuted}`}>localhost:3000</span>
+            {appConfig.pages?.length > 0 && (
+              <span className={`ml-auto text-xs ${GlassTheme.textDim}`}>
+                {appConfig.pages.length} pages: {appConfig.pages.map(page => page.name).join(', ')}
+              </span>
+            )}
           </div>
           
-          <div className="bg-gradient-to-br from-purple-100 to-pink-100 rounded-lg p-8 min-h-80">
-            <div className="text-center">
-              <h2 className="text-2xl font-bold text-purple-900 mb-4">Your {appConfig.config?.theme || 'beautiful'} App</h2>
-              <p className="text-purple-700 mb-6">{appConfig.description || appConfig.idea}</p>
-              
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {[1, 2, 3].map(i => (
-                  <div key={i} className="bg-white bg-opacity-80 backdrop-blur-sm rounded-lg p-4">
-                    <h3 className="font-semibold text-purple-900 mb-2">Feature {i}</h3>
-                    <p className="text-sm text-purple-700">Generated component</p>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
+          <SandboxPreview files={appConfig.files || {}} />
         </div>
       </div>
 
+      {showEditor && (
+        <CodeEditorPanel
+          files={appConfig.files}
+          onSave={handleManualEdit}
+          onClose={() => setShowEditor(false)}
+        />
+      )}
+
+      {showHistory && (
+        <VersionHistory
+          versions={appConfig.versions || []}
+          currentVersionId={appConfig.currentVersionId}
+          onRestore={(versionId) => updateAndTypeCheck(restoreVersion(appConfig, versionId))}
+        />
+      )}
+
+      <RefinementPanel thread={thread} isRefining={isRefining} onSubmit={handleRefine} />
+
       {showSaveModal && (
         <div className="fixed inset-0 bg-black bg-opacity-80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className={`${GlassTheme.glass} rounded-2xl p-8 max-w-md w-full`}>
@@ -369,6 +747,16 @@ function AppPreview({ appConfig, onSave, onDownload }: { appConfig: any; onSave:
               placeholder="Give your app a title..."
               className={`w-full ${GlassTheme.glass} rounded-lg p-4 ${GlassTheme.text} placeholder-white placeholder-opacity-50 border-0 focus:ring-2 focus:ring-white focus:ring-opacity-30 mb-6`}
             />
+            {publishedTitle && (
+              <label className={`flex items-center space-x-2 text-sm ${GlassTheme.textMuted} mb-6`}>
+                <input
+                  type="checkbox"
+                  checked={updatePublished}
+                  onChange={(e) => setUpdatePublished(e.target.checked)}
+                />
+                <span>Update "{publishedTitle}" instead of publishing a new app</span>
+              </label>
+            )}
             <div className="flex space-x-3">
               <button
                 onClick={() => setShowSaveModal(false)}
@@ -378,7 +766,7 @@ function AppPreview({ appConfig, onSave, onDownload }: { appConfig: any; onSave:
               </button>
               <button
                 onClick={() => {
-                  onSave(title);
+                  onSave(title, Boolean(publishedTitle) && updatePublished);
                   setShowSaveModal(false);
                 }}
                 disabled={!title.trim()}
@@ -394,71 +782,113 @@ function AppPreview({ appConfig, onSave, onDownload }: { appConfig: any; onSave:
   );
 }
 
-// Public Gallery Component
-function PublicGallery({ apps }: { apps: any[] }) {
-  return (
-    <div className={`${GlassTheme.glass} rounded-2xl p-6`}>
-      <h3 className={`text-lg font-semibold mb-4 ${GlassTheme.text} flex items-center space-x-2`}>
-        <Users className="w-5 h-5" />
-        <span>Public Gallery</span>
-      </h3>
-      
-      <div className="flex space-x-4 overflow-x-auto pb-4">
-        {apps.map((app, i) => (
-          <div key={i} className={`${GlassTheme.glass} rounded-lg p-4 min-w-64 flex-shrink-0 hover:${GlassTheme.glassHover} transition-all cursor-pointer`}>
-            <div className="bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg h-32 mb-3 flex items-center justify-center">
-              <span className="text-blue-900 font-medium">{app.title}</span>
-            </div>
-            <h4 className={`font-medium ${GlassTheme.text} mb-1`}>{app.title}</h4>
-            <p className={`text-sm ${GlassTheme.textMuted} mb-2`}>{app.theme} • {app.layout}</p>
-            <div className="flex space-x-2">
-              <button className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover} flex items-center space-x-1`}>
-                <Eye className="w-3 h-3" />
-                <span>Preview</span>
-              </button>
-              <button className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover} flex items-center space-x-1`}>
-                <ExternalLink className="w-3 h-3" />
-                <span>Open</span>
-              </button>
-            </div>
-          </div>
-        ))}
-      </div>
-    </div>
-  );
-}
-
 // Main App Component
 export default function VibeAppMaker() {
   const [currentStep, setCurrentStep] = useState('idea');
   const [appIdea, setAppIdea] = useState('');
-  const [generatedApp, setGeneratedApp] = useState<any>(null);
+  const [generatedApp, setGeneratedApp] = useState<VersionedApp | null>(null);
   const [showQuestionnaire, setShowQuestionnaire] = useState(false);
-  const [publicApps] = useState([
-    { title: 'Habit Tracker', theme: 'minimal', layout: 'dual' },
-    { title: 'Recipe Finder', theme: 'playful', layout: 'triple' },
-    { title: 'Task Manager', theme: 'professional', layout: 'single' },
-    { title: 'Mood Journal', theme: 'artistic', layout: 'dual' },
-    { title: 'Code Snippet Manager', theme: 'techy', layout: 'quad' }
-  ]);
+  const [galleryKey, setGalleryKey] = useState(0);
+  const [remixOf, setRemixOf] = useState<AppLineage | null>(null);
+  const [builderConfig, setBuilderConfig] = useState<BuilderConfig | undefined>();
+  // The app this workspace last published, which its owner can update in place
+  const [publishedApp, setPublishedApp] = useState<(AppLineage & { workspace: string }) | null>(null);
+  // The user's own Anthropic key, kept in memory only
+  const [apiKey, setApiKey] = useState('');
+  const router = useRouter();
 
   const handleQuestionnaireComplete = (idea: string) => {
     setAppIdea(idea);
+    setRemixOf(null);
     setShowQuestionnaire(false);
     setCurrentStep('build');
   };
 
+  // A generated app is new code, not a fork of whatever was remixed before
   const handleAppGenerated = (config: any) => {
-    setGeneratedApp(config);
+    setRemixOf(null);
+    setPublishedApp(null);
+    setGeneratedApp(createVersionedApp(config, appIdea));
     setCurrentStep('preview');
   };
 
-  const handleSavePublic = (title: string) => {
-    console.log('Saving to public gallery:', title);
+  // Load a published app's files, settings and idea into the workspace; saving it records the fork
+  const handleRemix = (saved: StoredApp) => {
+    const app = toGeneratedApp(saved);
+    setAppIdea(saved.idea || saved.description);
+    setRemixOf({ id: saved.id, title: saved.title });
+    setPublishedApp(null);
+    setBuilderConfig({
+      theme: app.config.theme,
+      layout: app.config.layout,
+      mode: saved.pages?.length ? 'multi' : 'single',
+      customTheme: app.config.customTheme
+    });
+    setGeneratedApp(createVersionedApp(app, `Remixed "${saved.title}"`));
+    setCurrentStep('preview');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleDownload = () => {
-    console.log('Downloading app:', generatedApp);
+  // Shared app pages link here with ?remix=<id>
+  useEffect(() => {
+    const remixId = router.query.remix;
+    if (!router.isReady || typeof remixId !== 'string') {
+      return;
+    }
+    router.replace('/', undefined, { shallow: true });
+    fetch(`/api/apps/${encodeURIComponent(remixId)}`)
+      .then(async response => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || `Request failed with status ${response.status}`);
+        }
+        handleRemix(result.app);
+      })
+      .catch(error => alert(`Could not remix this app: ${error.message}`));
+  }, [router.isReady, router.query.remix]);
+
+  // Only the workspace that published an app may update it in place
+  const ownPublishedApp = generatedApp && publishedApp?.workspace === workspaceId(generatedApp) ? publishedApp : null;
+
+  const handleSavePublic = async (title: string, updatePublished: boolean) => {
+    try {
+      const appData = withoutHistory(generatedApp);
+      const response = updatePublished && ownPublishedApp
+        ? await fetch(`/api/apps/${ownPublishedApp.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ title, appData })
+          })
+        : await fetch('/api/save-app', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ title, appData, idea: appIdea, forkedFrom: remixOf?.id })
+          });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(response.status === 422
+          ? `${result.error}: ${(result.findings || []).map(finding => finding.message).join('; ')}`
+          : result.error || `Save failed with status ${response.status}`);
+      }
+      const appId = result.appId || result.app.id;
+      setPublishedApp({ id: appId, title, workspace: workspaceId(generatedApp) });
+      setGalleryKey(key => key + 1);
+      if (window.confirm(`Saved "${title}" to the public gallery! Open its shareable page?`)) {
+        window.open(`/app/${appId}`, '_blank');
+      }
+    } catch (error: any) {
+      console.error('Save error:', error);
+      alert(`Saving failed: ${error.message}`);
+    }
+  };
+
+  const handleDownload = async (target: ExportTargetId) => {
+    try {
+      await downloadProject(withoutHistory(generatedApp), target);
+    } catch (error) {
+      console.error('Download error:', error);
+      alert('Download failed. Please try again.');
+    }
   };
 
   return (
@@ -475,6 +905,9 @@ export default function VibeAppMaker() {
           <p className={`text-lg ${GlassTheme.textMuted} max-w-2xl mx-auto`}>
             Create beautiful, AI-generated apps in seconds. No coding required, just pure creativity.
           </p>
+          <a href="/my-apps" className={`inline-block mt-3 text-sm ${GlassTheme.textMuted} underline hover:text-white`}>
+            My apps
+          </a>
         </header>
 
         <div className="max-w-4xl mx-auto space-y-8">
@@ -513,23 +946,54 @@ export default function VibeAppMaker() {
             </div>
           )}
 
+          {remixOf && currentStep !== 'idea' && (
+            <div className={`${GlassTheme.glass} rounded-2xl px-6 py-4 flex flex-wrap items-center justify-between gap-3`}>
+              <span className={`text-sm ${GlassTheme.textMuted} flex items-center space-x-2`}>
+                <GitFork className="w-4 h-4" />
+                <span>
+                  Remix of{' '}
+                  <a href={`/app/${remixOf.id}`} target="_blank" rel="noreferrer" className={`${GlassTheme.text} underline`}>
+                    {remixOf.title}
+                  </a>
+                </span>
+              </span>
+              {currentStep === 'preview' && (
+                <button
+                  onClick={() => setCurrentStep('build')}
+                  className={`${GlassTheme.secondary} px-3 py-1 rounded text-sm hover:${GlassTheme.secondaryHover}`}
+                >
+                  Edit idea & regenerate
+                </button>
+              )}
+            </div>
+          )}
+
           {currentStep === 'build' && (
             <AppBuilder 
+              key={remixOf?.id || 'new'}
               idea={appIdea} 
+              onIdeaChange={setAppIdea}
               onGenerate={handleAppGenerated}
               theme={GlassTheme}
+              initialConfig={builderConfig}
+              apiKey={apiKey}
+              onApiKeyChange={setApiKey}
             />
           )}
 
           {currentStep === 'preview' && generatedApp && (
             <AppPreview 
+              key={workspaceId(generatedApp)}
               appConfig={generatedApp}
+              publishedTitle={ownPublishedApp?.title}
               onSave={handleSavePublic}
               onDownload={handleDownload}
+              onUpdate={setGeneratedApp}
+              apiKey={apiKey}
             />
           )}
 
-          <PublicGallery apps={publicApps} />
+          <PublicGallery refreshKey={galleryKey} onRemix={handleRemix} />
         </div>
 
         {showQuestionnaire && (
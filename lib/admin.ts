@@ -0,0 +1,8 @@
+// Admin Access - Bearer-token check shared by the /api/admin routes
+import type { NextApiRequest } from 'next';
+
+// True when the request carries ADMIN_TOKEN as a bearer token; admin routes stay closed while it is unset
+export function isAdminRequest(req: NextApiRequest) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  return Boolean(adminToken) && req.headers.authorization === `Bearer ${adminToken}`;
+}
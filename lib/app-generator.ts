@@ -1,4 +1,6 @@
 // App Generator - Creates complete Vibe App project structure
+import { CUSTOM_THEME_ID, CustomTheme, THEME_PRESETS, THEME_RADII, THEME_SHADOWS, fontStack, resolveTheme } from './themes';
+
 export interface AppData {
   title: string;
   description: string;
@@ -6,54 +8,524 @@ export interface AppData {
     'App.tsx': string;
     'styles.css'?: string;
     'components.tsx'?: string;
+    [file: string]: string;
   };
   config: {
     theme: string;
     layout: string;
     features: string[];
+    // Settings of a theme built in the builder; set when theme is 'custom'
+    customTheme?: CustomTheme;
   };
+  // Multi-page apps list their routes; single-page apps leave this out
+  pages?: AppPage[];
 }
 
-// Generate complete project files
-export function generateProjectFiles(appData: AppData) {
-  const projectName = appData.title.toLowerCase().replace(/[^a-zA-Z0-9]/g, '-');
-  
+export interface AppPage {
+  name: string;
+  path: string;
+  file: string;
+}
+
+// Themes and layouts offered by the builder and gallery filters; custom themes are built in the builder
+export const THEMES = [...THEME_PRESETS.map(preset => preset.id), CUSTOM_THEME_ID];
+export const LAYOUTS = ['single', 'dual', 'triple', 'quad'];
+
+// Generation modes: one App.tsx, or pages plus a shared component library
+export type GenerationMode = 'single' | 'multi';
+
+// Shared design-system components every multi-page app's components.tsx must export
+export const VIBE_COMPONENTS = ['VibeCard', 'VibeButton', 'VibeGrid'];
+
+// Router module supplied by the project rather than the model
+export const ROUTER_FILE = 'router.tsx';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  valid: boolean;
+  value?: T;
+  errors: ValidationIssue[];
+}
+
+export type SchemaNode =
+  | { type: 'string'; optional?: boolean; minLength?: number; maxLength?: number; check?: (value: string) => string | null }
+  | { type: 'array'; optional?: boolean; items: SchemaNode; maxItems?: number }
+  | { type: 'object'; optional?: boolean; properties: Record<string, SchemaNode>; additionalProperties?: SchemaNode };
+
+const APP_FILE_SCHEMA: SchemaNode = { type: 'string', minLength: 1, check: checkAppComponent };
+
+const CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    theme: { type: 'string', minLength: 1 },
+    layout: { type: 'string', minLength: 1 },
+    features: { type: 'array', optional: true, items: { type: 'string' }, maxItems: 20 }
+  }
+};
+
+// Schema for the generated code map; extra files are allowed as long as they are strings
+export const APP_CODE_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    'App.tsx': APP_FILE_SCHEMA,
+    'styles.css': { type: 'string', optional: true },
+    'components.tsx': { type: 'string', optional: true }
+  },
+  additionalProperties: { type: 'string' }
+};
+
+// Schema for the AppData JSON the model must return
+export const APP_DATA_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 100 },
+    description: { type: 'string', minLength: 1, maxLength: 1000 },
+    code: APP_CODE_SCHEMA,
+    config: CONFIG_SCHEMA
+  }
+};
+
+// Schema for multi-page answers: the shared files are required and every page is listed
+export const MULTI_PAGE_APP_DATA_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 100 },
+    description: { type: 'string', minLength: 1, maxLength: 1000 },
+    code: {
+      type: 'object',
+      properties: {
+        'App.tsx': APP_FILE_SCHEMA,
+        'styles.css': { type: 'string' },
+        'components.tsx': { type: 'string', minLength: 1, check: checkVibeComponents }
+      },
+      additionalProperties: { type: 'string' }
+    },
+    pages: {
+      type: 'array',
+      maxItems: 8,
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 50 },
+          path: { type: 'string', minLength: 1, check: checkRoutePath },
+          file: { type: 'string', minLength: 1 }
+        }
+      }
+    },
+    config: CONFIG_SCHEMA
+  }
+};
+
+// Validate a value against a schema, reporting every failing field
+export function validateSchema<T>(schema: SchemaNode, value: unknown): ValidationResult<T> {
+  const errors: ValidationIssue[] = [];
+  validateNode(schema, value, '', errors);
+  return errors.length
+    ? { valid: false, errors }
+    : { valid: true, value: value as T, errors };
+}
+
+// Validate a parsed model response against APP_DATA_SCHEMA
+export function validateAppData(value: unknown): ValidationResult<AppData> {
+  return withCodePathChecks(validateSchema<AppData>(APP_DATA_SCHEMA, value));
+}
+
+// Validate a multi-page response: schema, file paths, and that every listed page exists
+export function validateMultiPageAppData(value: unknown): ValidationResult<AppData> {
+  const result = withCodePathChecks(validateSchema<AppData>(MULTI_PAGE_APP_DATA_SCHEMA, value));
+  if (!result.valid) {
+    return result;
+  }
+
+  const { code, pages } = result.value;
+  const errors: ValidationIssue[] = [];
+  if (pages.length === 0) {
+    errors.push({ path: 'pages', message: 'must list at least one page' });
+  }
+  if (pages.length && pages[0].path !== '/') {
+    errors.push({ path: 'pages[0].path', message: 'the first page must be the home route "/"' });
+  }
+  const seenPaths = new Set<string>();
+  pages.forEach((page, i) => {
+    if (seenPaths.has(page.path)) {
+      errors.push({ path: `pages[${i}].path`, message: `duplicates the route "${page.path}"` });
+    }
+    seenPaths.add(page.path);
+    if (typeof code[page.file] !== 'string') {
+      errors.push({ path: `pages[${i}].file`, message: `"${page.file}" is not in code` });
+    }
+  });
+
+  return errors.length ? { valid: false, errors } : result;
+}
+
+// Code map keys become files under src/, so they must be plain relative source paths
+export function isSourcePath(name: string) {
+  return /^[\w-]+(\/[\w.-]+)*\.(tsx|ts|jsx|js|css)$/.test(name) && !name.split('/').includes('..');
+}
+
+function withCodePathChecks(result: ValidationResult<AppData>): ValidationResult<AppData> {
+  if (!result.valid) {
+    return result;
+  }
+  const errors = Object.keys(result.value.code)
+    .filter(name => !isSourcePath(name))
+    .map(name => ({ path: joinPath('code', name), message: 'must be a relative .tsx, .ts or .css path' }));
+  return errors.length ? { valid: false, errors } : result;
+}
+
+function validateNode(schema: SchemaNode, value: unknown, path: string, errors: ValidationIssue[]) {
+  const at = path || '(root)';
+
+  if (value === undefined || value === null) {
+    if (!schema.optional) {
+      errors.push({ path: at, message: 'is required' });
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        errors.push({ path: at, message: `must be a string, got ${describeType(value)}` });
+        return;
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push({ path: at, message: 'must not be empty' });
+        return;
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+      }
+      const problem = schema.check?.(value);
+      if (problem) {
+        errors.push({ path: at, message: problem });
+      }
+      return;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push({ path: at, message: `must be an array, got ${describeType(value)}` });
+        return;
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+      }
+      value.forEach((item, i) => validateNode(schema.items, item, `${path}[${i}]`, errors));
+      return;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push({ path: at, message: `must be an object, got ${describeType(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, child] of Object.entries(schema.properties)) {
+        validateNode(child, record[key], joinPath(path, key), errors);
+      }
+      for (const key of Object.keys(record)) {
+        if (!(key in schema.properties) && schema.additionalProperties) {
+          validateNode(schema.additionalProperties, record[key], joinPath(path, key), errors);
+        }
+      }
+      return;
+    }
+  }
+}
+
+function joinPath(path: string, key: string) {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}["${key}"]`;
+}
+
+function describeType(value: unknown) {
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+// App.tsx must export the root component and must not be cut off mid-file
+export function checkAppComponent(code: string) {
+  if (!/export\s+default\s+(function\s+App\b|App\b)/.test(code)) {
+    return 'must export a default App component (export default function App)';
+  }
+  const opening = (code.match(/[{(]/g) || []).length;
+  const closing = (code.match(/[})]/g) || []).length;
+  if (opening > closing) {
+    return `appears truncated (${opening - closing} unclosed braces or parentheses)`;
+  }
+  return null;
+}
+
+function checkRoutePath(path: string) {
+  return /^\/[\w\-/]*$/.test(path) ? null : 'must be a route path like "/" or "/settings"';
+}
+
+// components.tsx must keep the shared Vibe design system available to every page
+function checkVibeComponents(code: string) {
+  const missing = VIBE_COMPONENTS.filter(name => !new RegExp(`export\\s+(function|const|class)\\s+${name}\\b`).test(code));
+  return missing.length ? `must export ${missing.join(', ')}` : null;
+}
+
+// Project slug used for package names and archive folders
+export function getProjectSlug(title: string) {
+  const slug = (title || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'vibe-app';
+}
+
+// Generate complete project files: the Bun + Hono project that is also the workspace and preview layout
+export function generateProjectFiles(appData: AppData): Record<string, string> {
+  const projectName = getProjectSlug(appData.title);
+  // Bun's bundler does not run PostCSS, so build.ts compiles Tailwind into its own stylesheet
+  const tailwind = usesTailwind(appData);
+
   return {
-    'package.json': generatePackageJson(projectName),
-    'src/App.tsx': appData.code['App.tsx'] || generateDefaultApp(appData),
-    'src/components.tsx': appData.code['components.tsx'] || generateVibeComponents(appData),
-    'src/styles.css': appData.code['styles.css'] || generateGlobalStyles(appData),
+    'package.json': generatePackageJson(projectName, tailwind),
+    'tsconfig.json': generateTsConfig(),
+    'index.html': generateHtmlEntry(appData, tailwind),
+    'build.ts': generateBuildScript(tailwind),
+    'server.ts': generateServer(),
+    ...(tailwind ? {
+      'tailwind.config.js': generateTailwindConfig(appData, { content: ['./index.html', './src/**/*.{ts,tsx,js,jsx}'], format: 'esm' }),
+      'src/tailwind.css': TAILWIND_DIRECTIVES
+    } : {}),
+    ...generateSourceFiles(appData),
     'src/index.tsx': generateIndexFile(),
-    'README.md': generateReadme(appData.title, appData.description, appData.config.theme),
+    'README.md': generateReadme(appData, {
+      quickStart: `# Install dependencies (Bun 1.2+)
+bun install
+
+# Start the development server (rebuilds on changes) at http://localhost:3000
+bun run dev
+
+# Build for production into dist/
+bun run build
+
+# Serve the production build (PORT defaults to 3000)
+bun run start`,
+      deploy: '`vercel.json` builds the app with Bun and serves `dist/` as a static site, so running `vercel` in this folder is enough. Any host that can run Bun can use `bun run build && bun run start` instead.',
+      tooling: [
+        'index.html           # HTML shell (#root, bundled script and styles)',
+        'build.ts             # Bun bundler: src/ -> dist/',
+        'server.ts            # Hono server for dist/',
+        ...(tailwind ? ['tailwind.config.js   # Tailwind content paths and theme colors'] : [])
+      ],
+      builtWith: [
+        '**Hono** - Server for the built assets',
+        '**Bun** - Runtime, bundler and package manager'
+      ]
+    }),
     'vercel.json': generateVercelConfig(),
     '.gitignore': generateGitignore()
   };
 }
 
+// The app's own modules under src/, shared by every export target; missing core files get defaults
+export function generateSourceFiles(appData: AppData): Record<string, string> {
+  const code = appData.code || {} as AppData['code'];
+
+  // Every generated file (pages, extra components) ships under src/
+  const sourceFiles: Record<string, string> = {};
+  for (const [name, content] of Object.entries(code)) {
+    if (typeof content === 'string' && isSourcePath(name)) {
+      sourceFiles[`src/${name}`] = content;
+    }
+  }
+
+  return {
+    ...sourceFiles,
+    'src/App.tsx': code['App.tsx'] || generateDefaultApp(appData),
+    'src/components.tsx': code['components.tsx'] || generateVibeComponents(appData),
+    'src/styles.css': code['styles.css'] || generateGlobalStyles(appData),
+    // Always rebuilt from config, so exports follow the app's theme even when the model wrote its own styles
+    'src/theme.css': generateThemeStylesheet(appData),
+    ...(appData.pages?.length ? { [`src/${ROUTER_FILE}`]: code[ROUTER_FILE] || generateRouterModule() } : {})
+  };
+}
+
 // Generate package.json
-function generatePackageJson(projectName: string) {
+function generatePackageJson(projectName: string, tailwind: boolean) {
   return JSON.stringify({
     name: projectName,
     version: '1.0.0',
     description: 'A beautiful Vibe App',
+    private: true,
+    type: 'module',
     scripts: {
-      dev: 'bun run --hot src/index.tsx',
-      build: 'bun run build',
-      start: 'bun run start'
+      dev: 'bun server.ts --dev',
+      build: 'bun build.ts',
+      start: 'bun server.ts',
+      typecheck: 'tsc --noEmit'
+    },
+    engines: {
+      bun: '>=1.2.0'
     },
     dependencies: {
-      'hono': '^3.12.0',
+      'hono': '^4.6.0',
       'react': '^18.2.0',
       'react-dom': '^18.2.0'
     },
     devDependencies: {
+      '@types/bun': '^1.2.0',
       '@types/react': '^18.2.0',
       '@types/react-dom': '^18.2.0',
-      'typescript': '^5.0.0'
+      'typescript': '^5.0.0',
+      ...(tailwind ? TAILWIND_DEV_DEPENDENCIES : {})
     }
   }, null, 2);
 }
 
+// Generate tsconfig.json for editors and `bun run typecheck`
+function generateTsConfig() {
+  return JSON.stringify({
+    compilerOptions: {
+      target: 'ES2020',
+      lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+      module: 'ESNext',
+      moduleResolution: 'bundler',
+      jsx: 'react-jsx',
+      strict: false,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true,
+      types: ['bun']
+    },
+    include: ['src', 'build.ts', 'server.ts']
+  }, null, 2);
+}
+
+// Generate the HTML shell that loads the bundle built into dist/assets
+function generateHtmlEntry(appData: AppData, tailwind: boolean) {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(appData.title || 'Vibe App')}</title>
+    <meta name="description" content="${escapeHtml(appData.description || '')}" />
+${tailwind ? '    <link rel="stylesheet" href="/assets/tailwind.css" />\n' : ''}    <link rel="stylesheet" href="/assets/index.css" />
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/assets/index.js"></script>
+  </body>
+</html>
+`;
+}
+
+// Generate the Bun bundler script: src/index.tsx and its CSS into dist/assets, plus the HTML shell
+// and, for Tailwind apps, the compiled utilities
+function generateBuildScript(tailwind: boolean) {
+  return `// Bundles src/index.tsx (and the CSS it imports) into dist/; \`bun build.ts --watch\` rebuilds on changes
+import { watch } from 'node:fs';
+import { copyFile, mkdir, rm } from 'node:fs/promises';
+${tailwind ? `import autoprefixer from 'autoprefixer';
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss';
+` : ''}
+const OUT_DIR = './dist';
+${tailwind ? `
+// Compiles the Tailwind classes used under src/ (see tailwind.config.js) into dist/assets/tailwind.css
+async function buildTailwind() {
+  const from = './src/tailwind.css';
+  const result = await postcss([tailwindcss(), autoprefixer()]).process(await Bun.file(from).text(), { from });
+  await Bun.write(\`\${OUT_DIR}/assets/tailwind.css\`, result.css);
+}
+` : ''}
+export async function build({ minify = true } = {}) {
+  const result = await Bun.build({
+    entrypoints: ['./src/index.tsx'],
+    outdir: \`\${OUT_DIR}/assets\`,
+    naming: '[name].[ext]',
+    target: 'browser',
+    minify,
+    sourcemap: 'linked',
+    define: { 'process.env.NODE_ENV': JSON.stringify(minify ? 'production' : 'development') }
+  });
+
+  if (!result.success) {
+    result.logs.forEach(log => console.error(log));
+    return false;
+  }
+
+  await mkdir(OUT_DIR, { recursive: true });
+  await copyFile('./index.html', \`\${OUT_DIR}/index.html\`);${tailwind ? `
+  await buildTailwind();` : ''}
+  console.log(\`Built \${result.outputs.length} files into \${OUT_DIR}\`);
+  return true;
+}
+
+// Rebuild (unminified) whenever a source file or the HTML shell changes
+export function watchSource() {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const rebuild = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => build({ minify: false }), 50);
+  };
+  watch('./src', { recursive: true }, rebuild);
+  watch('./index.html', rebuild);
+  console.log('Watching src/ for changes');
+}
+
+if (import.meta.main) {
+  const watching = process.argv.includes('--watch');
+  await rm(OUT_DIR, { recursive: true, force: true });
+  const ok = await build({ minify: !watching });
+  if (watching) {
+    watchSource();
+  } else if (!ok) {
+    process.exit(1);
+  }
+}
+`;
+}
+
+// Generate the Hono server that serves the built assets, falling back to the app shell for client routes
+function generateServer() {
+  return `// Serves the built app from dist/; \`bun server.ts --dev\` builds first and rebuilds on changes
+import { Hono } from 'hono';
+import { serveStatic } from 'hono/bun';
+import { build, watchSource } from './build';
+
+const dev = process.argv.includes('--dev');
+if (dev) {
+  await build({ minify: false });
+  watchSource();
+}
+
+const app = new Hono();
+
+app.get('/api/health', (c) => c.json({ ok: true }));
+
+app.use('/*', serveStatic({ root: './dist' }));
+// Any other path gets the app shell, so reloading a client route still works
+app.get('*', serveStatic({ path: './dist/index.html' }));
+
+const port = Number(process.env.PORT) || 3000;
+console.log(\`\${dev ? 'Dev server' : 'Server'} running at http://localhost:\${port}\`);
+
+export default {
+  port,
+  fetch: app.fetch
+};
+`;
+}
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 // Generate default App component
 function generateDefaultApp(appData: AppData) {
   return `import React from 'react';
@@ -83,95 +555,153 @@ export default function App() {
 
 // Generate Vibe components
 function generateVibeComponents(appData: AppData) {
+  const theme = resolveTheme(appData.config).palette;
+
   return `import React from 'react';
 
-export function Button({ children, onClick, variant = 'primary' }) {
+// Vibe design system - shared building blocks for every page
+export function VibeButton({ children, onClick = undefined, variant = 'primary', type = 'button' as 'button' | 'submit' | 'reset', className = '' }) {
+  const colors = variant === 'primary'
+    ? { background: '${theme.accent}', color: '#FFFFFF' }
+    : { background: 'transparent', color: '${theme.primary}', border: '1px solid ${theme.secondary}' };
   return (
-    <button 
-      className={\`btn btn-\${variant}\`}
+    <button
+      type={type}
       onClick={onClick}
+      style={colors}
+      className={\`px-4 py-2 rounded-lg font-semibold transition-transform hover:scale-105 \${className}\`}
     >
       {children}
     </button>
   );
 }
 
-export function Card({ children, title }) {
+export function VibeCard({ children, title = undefined, className = '' }) {
   return (
-    <div className="card">
-      {title && <h3 className="card-title">{title}</h3>}
-      <div className="card-content">
+    <div style={{ background: '${theme.surface}' }} className={\`rounded-xl p-6 shadow-lg border border-black/5 \${className}\`}>
+      {title && <h3 style={{ color: '${theme.primary}' }} className="text-lg font-semibold mb-3">{title}</h3>}
+      <div style={{ color: '${theme.secondary}' }}>
         {children}
       </div>
     </div>
   );
 }
 
-export function Grid({ children, columns = 3 }) {
+const GRID_COLUMNS = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 md:grid-cols-2',
+  3: 'grid-cols-1 md:grid-cols-3',
+  4: 'grid-cols-1 md:grid-cols-2 lg:grid-cols-4'
+};
+
+export function VibeGrid({ children, columns = 3 }) {
   return (
-    <div className={\`grid grid-\${columns}\`}>
+    <div className={\`grid gap-6 \${GRID_COLUMNS[columns] || GRID_COLUMNS[3]}\`}>
       {children}
     </div>
   );
-}`;
 }
 
-// Generate theme system
-function generateThemeSystem(theme: string) {
-  const themes = {
-    minimal: {
-      primary: '#000000',
-      secondary: '#666666',
-      accent: '#007AFF',
-      background: '#FFFFFF',
-      surface: '#F5F5F5'
-    },
-    playful: {
-      primary: '#8B5CF6',
-      secondary: '#A78BFA',
-      accent: '#F59E0B',
-      background: '#FDF2F8',
-      surface: '#FFFFFF'
-    },
-    professional: {
-      primary: '#1E40AF',
-      secondary: '#3B82F6',
-      accent: '#059669',
-      background: '#F8FAFC',
-      surface: '#FFFFFF'
-    },
-    artistic: {
-      primary: '#DC2626',
-      secondary: '#F97316',
-      accent: '#7C3AED',
-      background: '#FEF3C7',
-      surface: '#FFFFFF'
-    },
-    techy: {
-      primary: '#059669',
-      secondary: '#10B981',
-      accent: '#3B82F6',
-      background: '#ECFDF5',
-      surface: '#FFFFFF'
-    }
-  };
+export const Button = VibeButton;
+export const Card = VibeCard;
+export const Grid = VibeGrid;`;
+}
+
+// Generate the hash router used by multi-page apps
+export function generateRouterModule() {
+  return `import React, { useEffect, useState } from 'react';
 
-  return themes[theme] || themes.minimal;
+// Hash-based routing; sandboxed previews cannot change the URL, so the route also lives in memory
+const canUseHash = typeof window !== 'undefined' && /^https?:$/.test(window.location.protocol);
+const listeners = new Set<(path: string) => void>();
+let currentPath = canUseHash ? readHash() : '/';
+
+function readHash() {
+  const path = window.location.hash.replace(/^#/, '');
+  return path.startsWith('/') ? path : '/';
 }
 
-// Generate global styles
-function generateGlobalStyles(appData: AppData) {
-  const theme = generateThemeSystem(appData.config.theme);
-  
-  return `/* Vibe App Styles - ${appData.config.theme} Theme */
+export function navigate(path: string) {
+  if (path === currentPath) return;
+  currentPath = path;
+  if (canUseHash && readHash() !== path) {
+    window.location.hash = path;
+  }
+  listeners.forEach(listener => listener(path));
+  window.scrollTo(0, 0);
+}
+
+if (canUseHash) {
+  window.addEventListener('hashchange', () => navigate(readHash()));
+}
+
+export function useRoute(): string {
+  const [path, setPath] = useState(currentPath);
+  useEffect(() => {
+    listeners.add(setPath);
+    return () => {
+      listeners.delete(setPath);
+    };
+  }, []);
+  return path;
+}
+
+export interface Route {
+  path: string;
+  component: () => any;
+}
+
+export function Router({ routes }: { routes: Route[] }) {
+  const path = useRoute();
+  const route = routes.find(candidate => candidate.path === path) || routes[0];
+  if (!route) return null;
+  const Page = route.component;
+  return <Page />;
+}
+
+interface LinkProps {
+  to: string;
+  children?: any;
+  className?: string;
+  activeClassName?: string;
+}
+
+export function Link({ to, children, className = '', activeClassName = '' }: LinkProps) {
+  const path = useRoute();
+  return (
+    <a
+      href={'#' + to}
+      className={path === to ? \`\${className} \${activeClassName}\` : className}
+      onClick={(event: { preventDefault: () => void }) => {
+        event.preventDefault();
+        navigate(to);
+      }}
+    >
+      {children}
+    </a>
+  );
+}`;
+}
+
+// Generate theme.css: the resolved theme as CSS variables, shared by styles.css, the components and Tailwind
+export function generateThemeStylesheet(appData: AppData) {
+  const theme = resolveTheme(appData.config);
+  const colors = Object.entries(theme.palette).map(([name, value]) => `  --${name}: ${value};`).join('\n');
+
+  return `/* Theme: ${theme.label} */
 :root {
-  --primary: ${theme.primary};
-  --secondary: ${theme.secondary};
-  --accent: ${theme.accent};
-  --background: ${theme.background};
-  --surface: ${theme.surface};
+${colors}
+  --font: ${fontStack(theme.font)};
+  --radius: ${THEME_RADII[theme.radius]};
+  --shadow: ${THEME_SHADOWS[theme.shadow]};
+  color-scheme: ${theme.dark ? 'dark' : 'light'};
+}
+`;
 }
 
+// Generate global styles
+function generateGlobalStyles(appData: AppData) {
+  return `/* Vibe App Styles - ${resolveTheme(appData.config).label} Theme; the variables live in theme.css */
 * {
   margin: 0;
   padding: 0;
@@ -179,9 +709,9 @@ function generateGlobalStyles(appData: AppData) {
 }
 
 body {
-  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', sans-serif;
+  font-family: var(--font);
   background: var(--background);
-  color: var(--primary);
+  color: var(--foreground);
   line-height: 1.6;
 }
 
@@ -227,8 +757,8 @@ body {
 .feature-card {
   background: var(--surface);
   padding: 2rem;
-  border-radius: 12px;
-  box-shadow: 0 4px 6px rgba(0,0,0,0.1);
+  border-radius: var(--radius);
+  box-shadow: var(--shadow);
   border: 1px solid rgba(0,0,0,0.05);
   transition: transform 0.2s, box-shadow 0.2s;
 }
@@ -254,7 +784,7 @@ body {
   color: white;
   border: none;
   padding: 0.75rem 1.5rem;
-  border-radius: 8px;
+  border-radius: var(--radius);
   font-size: 1rem;
   font-weight: 600;
   cursor: pointer;
@@ -283,11 +813,13 @@ body {
 }`;
 }
 
-// Generate index file
-function generateIndexFile() {
+// Generate the browser entry that mounts App into #root; bundlers that run PostCSS also get the Tailwind stylesheet
+export function generateIndexFile({ tailwindStylesheet = false } = {}) {
   return `import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+${tailwindStylesheet ? "import './tailwind.css';\n" : ''}import './theme.css';
+import './styles.css';
 
 const container = document.getElementById('root');
 if (container) {
@@ -296,45 +828,142 @@ if (container) {
 }`;
 }
 
-// Generate README
-function generateReadme(title: string, description: string, theme: string) {
-  return `# ${title}
+// Distinct utilities the sources must use before an export sets up Tailwind
+const MIN_TAILWIND_UTILITIES = 3;
+// Class-sized tokens: the parts of a Tailwind utility (variants, utility, value) never hold these
+const CLASS_SEPARATOR = /[^\w:/.#%[\]-]+/;
+// Tailwind utilities that take a value (p-4, md:grid-cols-3, hover:bg-white/10, w-[320px]); bare words
+// such as flex or hidden are left out because inline styles use them too
+const TAILWIND_UTILITY = /^(?:[a-z0-9-]+:)*-?(?:[pm][xytrbl]?|space-[xy]|gap(?:-[xy])?|(?:min-|max-)?[wh]|text|font|leading|tracking|bg|from|via|to|border(?:-[xytrbl])?|rounded(?:-[tlbr]{1,2})?|shadow|ring|opacity|items|justify|self|place-(?:items|content|self)|grid-(?:cols|rows)|(?:col|row)-span|inset|top|right|bottom|left|z|overflow|duration|ease|scale|rotate|translate-[xy]|animate|cursor|divide-[xy]?)-[a-z0-9./[\]#%-]+$/;
+
+export const TAILWIND_DIRECTIVES = `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+`;
+
+export const TAILWIND_DEV_DEPENDENCIES = {
+  'autoprefixer': '^10.4.0',
+  'postcss': '^8.4.0',
+  'tailwindcss': '^3.4.0'
+};
+
+// Whether the app styles itself with Tailwind classes, so its exports need a Tailwind build
+export function usesTailwind(appData: AppData) {
+  const utilities = new Set<string>();
+  for (const [filePath, source] of Object.entries(generateSourceFiles(appData))) {
+    if (!/\.[jt]sx?$/.test(filePath)) {
+      continue;
+    }
+    for (const token of source.split(CLASS_SEPARATOR)) {
+      if (TAILWIND_UTILITY.test(token)) {
+        utilities.add(token);
+        if (utilities.size >= MIN_TAILWIND_UTILITIES) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
 
-${description}
+// The theme's tokens as Tailwind names (bg-primary, text-accent/80, font-theme, rounded-theme, shadow-theme),
+// matching the CSS variables in theme.css
+export function getTailwindTheme(appData: AppData) {
+  const theme = resolveTheme(appData.config);
+  return {
+    extend: {
+      colors: { ...theme.palette },
+      fontFamily: { theme: [fontStack(theme.font)] },
+      borderRadius: { theme: THEME_RADII[theme.radius] },
+      boxShadow: { theme: THEME_SHADOWS[theme.shadow] }
+    }
+  };
+}
+
+// Generate tailwind.config.js scanning the given sources; esm for "type": "module" projects
+export function generateTailwindConfig(appData: AppData, { content, format }: { content: string[]; format: 'esm' | 'commonjs' }) {
+  // JSON with identifier keys unquoted; values stay JSON strings, since font stacks carry their own quotes
+  const config = JSON.stringify({ content, theme: getTailwindTheme(appData), plugins: [] }, null, 2)
+    .replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, '$1$2:');
+  return `/** @type {import('tailwindcss').Config} */
+${format === 'esm' ? 'export default' : 'module.exports ='} ${config};
+`;
+}
+
+// Generate postcss.config.js for bundlers that load it (Vite, Next.js)
+export function generatePostcssConfig(format: 'esm' | 'commonjs') {
+  return `${format === 'esm' ? 'export default' : 'module.exports ='} {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {}
+  }
+};
+`;
+}
+
+// Parts of the README that depend on the export target
+export interface ReadmeSections {
+  // Shell commands for the Quick Start block
+  quickStart: string;
+  deploy: string;
+  // Structure lines for files outside src/
+  tooling: string[];
+  builtWith: string[];
+  // False when the target mounts App itself instead of through src/index.tsx
+  entryFile?: boolean;
+  // Folder holding the app's modules, when a target cannot use src/
+  sourceDir?: string;
+}
+
+// Generate README
+export function generateReadme(appData: AppData, { quickStart, deploy, tooling, builtWith, entryFile = true, sourceDir = 'src' }: ReadmeSections) {
+  const pages = appData.pages || [];
+  const tailwind = usesTailwind(appData);
+  const pageFiles = pages.map((page, i) => `│   ${i === pages.length - 1 ? '└──' : '├──'} ${page.file.replace(/^pages\//, '')}  # ${page.name} (${page.path})`);
+  const structure = [
+    ...tooling,
+    `${sourceDir}/`,
+    '├── App.tsx          # Main app component',
+    '├── components.tsx   # Reusable components',
+    ...(pages.length ? ['├── router.tsx       # Hash-based client routing', '├── pages/', ...pageFiles] : []),
+    ...(tailwind ? ['├── tailwind.css     # Tailwind directives'] : []),
+    '├── theme.css        # Theme variables (colors, font, radius, shadow)',
+    `${entryFile ? '├──' : '└──'} styles.css       # Global styles`,
+    ...(entryFile ? ['└── index.tsx        # App entry point'] : [])
+  ].join('\n');
+  const routes = pages.length
+    ? `\n## 🧭 Pages\n\n${pages.map(page => `- **${page.name}** - \`#${page.path}\``).join('\n')}\n`
+    : '';
+
+  return `# ${appData.title}
+
+${appData.description}
 
 ## 🚀 Quick Start
 
 \`\`\`bash
-# Install dependencies
-bun install
+${quickStart}
+\`\`\`
 
-# Start development server
-bun run dev
+## ☁️ Deploy
 
-# Build for production
-bun run build
-\`\`\`
+${deploy}
 
 ## 🎨 Theme
 
-This app uses the **${theme}** theme with a modern, responsive design.
-
+This app uses the **${resolveTheme(appData.config).label}** theme with a modern, responsive design. Its colors, font, corner radius and shadow are CSS variables in \`${sourceDir}/theme.css\`.
+${routes}
 ## 📁 Project Structure
 
 \`\`\`
-src/
-├── App.tsx          # Main app component
-├── components.tsx   # Reusable components
-├── styles.css       # Global styles and theme
-└── index.tsx        # App entry point
+${structure}
 \`\`\`
 
 ## 🛠️ Built With
 
 - **React** - UI framework
-- **Hono** - Web framework
-- **Bun** - Runtime and package manager
-- **TypeScript** - Type safety
+${builtWith.map(item => `- ${item}`).join('\n')}
+${tailwind ? '- **Tailwind CSS** - Utility classes, with the theme as `primary`, `secondary`, `accent`, `background`, `surface` and `foreground` colors plus `font-theme`, `rounded-theme` and `shadow-theme`\n' : ''}- **TypeScript** - Type safety
 
 ## 📄 License
 
@@ -342,27 +971,20 @@ MIT License - feel free to use this project for your own apps!
 `;
 }
 
-// Generate Vercel config
+// Generate Vercel config: build with Bun and serve dist/ as a static site
 function generateVercelConfig() {
   return JSON.stringify({
-    version: 2,
-    builds: [
-      {
-        src: "src/index.tsx",
-        use: "@vercel/static"
-      }
-    ],
-    routes: [
-      {
-        src: "/(.*)",
-        dest: "/src/index.tsx"
-      }
+    installCommand: 'bun install',
+    buildCommand: 'bun run build',
+    outputDirectory: 'dist',
+    rewrites: [
+      { source: '/((?!assets/).*)', destination: '/index.html' }
     ]
   }, null, 2);
 }
 
 // Generate gitignore
-function generateGitignore() {
+export function generateGitignore() {
   return `# Dependencies
 node_modules/
 bun.lockb
@@ -389,8 +1011,3 @@ npm-debug.log*
 yarn-debug.log*
 yarn-error.log*`;
 }
-
-// Generate complete project (for download)
-export async function generateCompleteProject(appData: AppData) {
-  return generateProjectFiles(appData);
-}
\ No newline at end of file
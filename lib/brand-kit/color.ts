@@ -0,0 +1,108 @@
+// Brand Kit colors - Hex parsing, RGB/HSL math and WCAG contrast (safe to use in the browser)
+import type { ContrastCheck, ContrastLevel } from './types';
+
+export type Rgb = [number, number, number];
+
+const HEX_TOKEN = /#?\b([0-9a-f]{6}|[0-9a-f]{3})\b/gi;
+
+// Every hex color in pasted text, normalized to #RRGGBB; bare six-digit tokens count, bare three-digit ones need a '#'
+export function parseHexList(text: string) {
+  const colors: string[] = [];
+  HEX_TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = HEX_TOKEN.exec(text))) {
+    const [token, digits] = match;
+    if (digits.length === 3 && !token.startsWith('#')) {
+      continue;
+    }
+    const hex = toHex(hexToRgb(digits));
+    if (colors.indexOf(hex) === -1) {
+      colors.push(hex);
+    }
+  }
+  return colors;
+}
+
+export function hexToRgb(hex: string): Rgb {
+  let digits = hex.replace('#', '');
+  if (digits.length === 3) {
+    digits = digits.split('').map(digit => digit + digit).join('');
+  }
+  const value = parseInt(digits, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+export function toHex([r, g, b]: Rgb) {
+  return `#${[r, g, b].map(channel => `0${Math.round(clamp(channel, 0, 255)).toString(16)}`.slice(-2)).join('').toUpperCase()}`;
+}
+
+// Hue in degrees, saturation and lightness from 0 to 1
+export function toHsl([r, g, b]: Rgb) {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) {
+    return { hue: 0, saturation: 0, lightness };
+  }
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue = max === red ? ((green - blue) / delta) % 6 : max === green ? (blue - red) / delta + 2 : (red - green) / delta + 4;
+  return { hue: (hue * 60 + 360) % 360, saturation, lightness };
+}
+
+export function hueDistance(a: number, b: number) {
+  const distance = Math.abs(a - b) % 360;
+  return distance > 180 ? 360 - distance : distance;
+}
+
+// Straight-line distance in RGB space, used to keep palette entries distinct
+export function colorDistance(a: Rgb, b: Rgb) {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+// amount 0 keeps from, 1 gives to
+export function mix(from: string, to: string, amount: number) {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  return toHex([0, 1, 2].map(i => a[i] + (b[i] - a[i]) * amount) as Rgb);
+}
+
+// WCAG 2 relative luminance
+export function luminance(hex: string) {
+  const [r, g, b] = hexToRgb(hex).map(channel => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(a: string, b: string) {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+export function checkContrast(label: string, foreground: string, background: string, required: number): ContrastCheck {
+  const ratio = Math.round(contrastRatio(foreground, background) * 100) / 100;
+  const level: ContrastLevel = ratio >= 7 ? 'AAA' : ratio >= 4.5 ? 'AA' : ratio >= 3 ? 'AA large' : 'fail';
+  return { label, foreground, background, ratio, required, passes: ratio >= required, level };
+}
+
+// Move a color toward black or white, whichever reads against background, until it reaches the ratio
+export function ensureContrast(color: string, background: string, required: number) {
+  if (contrastRatio(color, background) >= required) {
+    return color;
+  }
+  const target = luminance(background) > 0.5 ? '#000000' : '#FFFFFF';
+  for (let step = 1; step <= 20; step++) {
+    const adjusted = mix(color, target, step / 20);
+    if (contrastRatio(adjusted, background) >= required) {
+      return adjusted;
+    }
+  }
+  return target;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
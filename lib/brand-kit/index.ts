@@ -0,0 +1,211 @@
+// Brand Kit - Turn a logo, pasted hex colors and a font name into a custom theme (server only)
+import { CustomTheme, parseCustomTheme, withDarkMode } from '../themes';
+import { Rgb, checkContrast, colorDistance, ensureContrast, hexToRgb, hueDistance, mix, parseHexList, toHex, toHsl } from './color';
+import { decodePng, isPng } from './png';
+import { BrandKitInput, BrandKitResult, MAX_LOGO_BYTES } from './types';
+
+export * from './types';
+
+// Why an import was refused, with the HTTP status the route answers with
+export interface BrandKitFailure {
+  error: string;
+  status: number;
+}
+
+interface ColorCount {
+  rgb: Rgb;
+  count: number;
+}
+
+const MAX_PALETTE = 6;
+// Colors closer than this (in RGB space) count as one palette entry
+const MIN_DISTANCE = 48;
+// Pixels sampled per logo; larger images are read with a stride
+const MAX_SAMPLES = 100000;
+// Colors covering less of the logo than this are anti-aliasing noise
+const MIN_SHARE = 0.005;
+const DATA_URL = /^data:([\w/.+-]*)(;base64)?,/;
+const SVG_COLOR = /(?:fill|stroke|stop-color)\s*[:=]\s*["']?\s*(#[0-9a-f]{6}\b|#[0-9a-f]{3}\b|rgba?\([^)]*\))/gi;
+
+export function importBrandKit(input: BrandKitInput): BrandKitResult | BrandKitFailure {
+  const pasted = Array.isArray(input.colors) ? parseHexList(input.colors.join(' ')) : parseHexList(input.colors || '');
+
+  let logoColors: string[] = [];
+  if (input.logo) {
+    const logo = readLogo(input.logo);
+    if ('error' in logo) {
+      return logo;
+    }
+    logoColors = logo.colors;
+  }
+
+  // Pasted colors are the brand's own choice, so they lead
+  const palette = distinct([...pasted, ...logoColors].map(hexToRgb)).slice(0, MAX_PALETTE).map(toHex);
+  if (!palette.length) {
+    return { error: input.logo ? 'No colors found in the logo' : 'Upload a logo or paste at least one hex color', status: 400 };
+  }
+
+  const font = typeof input.font === 'string' && input.font.trim() ? input.font.trim() : 'System';
+  const built = buildBrandTheme(palette, { font, name: input.name, dark: input.dark === true });
+  // The colors are all clean hex by now, so only the font can fail the registry's checks
+  const theme = parseCustomTheme(built.theme);
+  if (!theme) {
+    return { error: 'Font names may only use letters, numbers, spaces and hyphens (up to 40 characters)', status: 400 };
+  }
+
+  return { ...built, theme, palette };
+}
+
+// Map a palette onto theme roles, then make sure the text pairs the theme relies on stay readable
+export function buildBrandTheme(palette: string[], { font, name, dark }: { font: string; name?: string; dark: boolean }) {
+  const warnings: string[] = [];
+  const brand = palette.filter(isBrandColor);
+  const neutrals = palette.filter(color => !isBrandColor(color));
+
+  // Monochrome kits use their darkest color (or lightest, in dark mode) as the primary
+  const byLightness = neutrals.slice().sort((a, b) => toHsl(hexToRgb(a)).lightness - toHsl(hexToRgb(b)).lightness);
+  const primary = brand[0] || (dark ? byLightness[byLightness.length - 1] : byLightness[0]);
+  const hue = toHsl(hexToRgb(primary)).hue;
+  const others = brand.slice(1);
+  const contrasting = others.slice().sort((a, b) => hueDistance(toHsl(hexToRgb(b)).hue, hue) - hueDistance(toHsl(hexToRgb(a)).hue, hue))[0];
+  const accent = contrasting || primary;
+  const secondary = others.filter(color => color !== accent)[0] || mix(primary, dark ? '#000000' : '#FFFFFF', 0.3);
+  if (!brand.length) {
+    warnings.push('No saturated brand colors found; the theme uses your neutral colors');
+  }
+
+  const theme = withDarkMode({
+    ...(name ? { name } : {}),
+    palette: { primary, secondary, accent, background: '', surface: '', foreground: '' },
+    font,
+    radius: 'md',
+    shadow: 'soft',
+    dark
+  } as CustomTheme, dark);
+  const { background, surface, foreground } = theme.palette;
+
+  // Secondary is used for supporting text on cards, so it is shifted until it reads as body text
+  const readableSecondary = ensureContrast(secondary, surface, 4.5);
+  if (readableSecondary !== secondary) {
+    warnings.push(`Secondary ${secondary} was adjusted to ${readableSecondary} so text on cards meets WCAG AA`);
+    theme.palette.secondary = readableSecondary;
+  }
+
+  const contrast = [
+    checkContrast('Text on background', foreground, background, 4.5),
+    checkContrast('Text on surface', foreground, surface, 4.5),
+    checkContrast('Secondary text on surface', theme.palette.secondary, surface, 4.5),
+    checkContrast('Primary headings on background', primary, background, 3),
+    checkContrast('White button text on primary', '#FFFFFF', primary, 4.5),
+    checkContrast('White button text on accent', '#FFFFFF', accent, 4.5)
+  ];
+  for (const check of contrast) {
+    if (!check.passes) {
+      warnings.push(`${check.label} is ${check.ratio}:1, below the ${check.required}:1 WCAG AA minimum; consider a deeper shade`);
+    }
+  }
+
+  return { theme, contrast, warnings };
+}
+
+// Brand colors are the saturated, mid-lightness ones; whites, blacks and grays are neutrals
+function isBrandColor(color: string) {
+  const { saturation, lightness } = toHsl(hexToRgb(color));
+  return saturation >= 0.25 && lightness >= 0.12 && lightness <= 0.88;
+}
+
+function readLogo(dataUrl: string): { colors: string[] } | BrandKitFailure {
+  const match = DATA_URL.exec(dataUrl);
+  if (!match) {
+    return { error: 'Logo must be sent as a data URL', status: 400 };
+  }
+  const body = dataUrl.slice(match[0].length);
+  let buffer: Buffer;
+  try {
+    buffer = match[2] ? Buffer.from(body, 'base64') : Buffer.from(decodeURIComponent(body));
+  } catch {
+    return { error: 'Logo data URL is malformed', status: 400 };
+  }
+  if (buffer.length > MAX_LOGO_BYTES) {
+    return { error: `Logo is larger than ${MAX_LOGO_BYTES / 1024} KB`, status: 413 };
+  }
+
+  if (isPng(buffer)) {
+    try {
+      return { colors: dominantColors(decodePng(buffer).pixels) };
+    } catch (error: any) {
+      return { error: `Could not read the PNG: ${error.message}`, status: 400 };
+    }
+  }
+  const text = buffer.toString('utf8');
+  if (/<svg[\s>]/i.test(text)) {
+    return { colors: svgColors(text) };
+  }
+  return { error: 'Only PNG and SVG logos are supported', status: 415 };
+}
+
+// Most common colors among opaque pixels, bucketed to 5 bits per channel
+function dominantColors(pixels: Uint8Array) {
+  const buckets = new Map<number, { sum: Rgb; count: number }>();
+  const step = Math.max(1, Math.floor(pixels.length / 4 / MAX_SAMPLES));
+  let total = 0;
+  for (let i = 0; i < pixels.length; i += step * 4) {
+    if (pixels[i + 3] < 128) {
+      continue;
+    }
+    const key = ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+    const bucket = buckets.get(key) || { sum: [0, 0, 0] as Rgb, count: 0 };
+    bucket.sum = [bucket.sum[0] + pixels[i], bucket.sum[1] + pixels[i + 1], bucket.sum[2] + pixels[i + 2]];
+    bucket.count++;
+    buckets.set(key, bucket);
+    total++;
+  }
+
+  const counts: ColorCount[] = [];
+  buckets.forEach(({ sum, count }) => {
+    if (count / total >= MIN_SHARE) {
+      counts.push({ rgb: sum.map(channel => channel / count) as Rgb, count });
+    }
+  });
+  return merge(counts).map(toHex);
+}
+
+// SVG logos are ranked by how often each fill, stroke or gradient stop color is used
+function svgColors(svg: string) {
+  const counts: ColorCount[] = [];
+  SVG_COLOR.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SVG_COLOR.exec(svg))) {
+    const value = match[1];
+    const rgb = value.startsWith('#') ? hexToRgb(value) : value.replace(/[^\d.,]/g, '').split(',').slice(0, 3).map(Number) as Rgb;
+    if (rgb.length === 3 && rgb.every(channel => channel >= 0 && channel <= 255)) {
+      counts.push({ rgb, count: 1 });
+    }
+  }
+  return merge(counts).map(toHex);
+}
+
+// Fold near-identical colors together so each keeps the combined count, most common first
+function merge(counts: ColorCount[]) {
+  const merged: ColorCount[] = [];
+  for (const color of counts.slice().sort((a, b) => b.count - a.count)) {
+    const same = merged.find(existing => colorDistance(existing.rgb, color.rgb) < MIN_DISTANCE);
+    if (same) {
+      same.count += color.count;
+    } else {
+      merged.push({ ...color });
+    }
+  }
+  return merged.sort((a, b) => b.count - a.count).map(color => color.rgb);
+}
+
+// Drop colors too close to one already kept, preserving order
+function distinct(colors: Rgb[]) {
+  const kept: Rgb[] = [];
+  for (const color of colors) {
+    if (kept.every(existing => colorDistance(existing, color) >= MIN_DISTANCE)) {
+      kept.push(color);
+    }
+  }
+  return kept;
+}
@@ -0,0 +1,161 @@
+// Brand Kit PNG - Minimal decoder for logo uploads, built on zlib so no image library is needed (server only)
+import { inflateSync } from 'zlib';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  // RGBA, 8 bits per channel
+  pixels: Uint8Array;
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Channels per pixel for each PNG color type: gray, RGB, palette, gray + alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+// Larger logos are rejected before inflating rather than sampled
+export const MAX_PIXELS = 2048 * 2048;
+
+export function isPng(buffer: Buffer) {
+  return buffer.length > SIGNATURE.length && SIGNATURE.every((byte, i) => buffer[i] === byte);
+}
+
+// Decode a non-interlaced PNG, throwing on anything this decoder does not handle
+export function decodePng(buffer: Buffer): DecodedImage {
+  if (!isPng(buffer)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let palette: Buffer | null = null;
+  let paletteAlpha: Buffer | null = null;
+  const data: Buffer[] = [];
+
+  for (let offset = SIGNATURE.length; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    if (chunk.length !== length) {
+      throw new Error('PNG is truncated');
+    }
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new Error('Interlaced PNGs are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      paletteAlpha = chunk;
+    } else if (type === 'IDAT') {
+      data.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || !width || !height || [1, 2, 4, 8, 16].indexOf(bitDepth) === -1) {
+    throw new Error('Unsupported PNG format');
+  }
+  if (width * height > MAX_PIXELS) {
+    throw new Error(`PNG is larger than ${MAX_PIXELS} pixels`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error('PNG palette is missing');
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = inflateSync(Buffer.concat(data), { maxOutputLength: (stride + 1) * height });
+  const rows = unfilter(raw, stride, height, Math.max(1, bitsPerPixel / 8));
+
+  const pixels = new Uint8Array(width * height * 4);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  for (let y = 0; y < height; y++) {
+    const row = rows.subarray(y * stride, (y + 1) * stride);
+    for (let x = 0; x < width; x++) {
+      const samples = [];
+      for (let c = 0; c < channels; c++) {
+        samples.push(readSample(row, x * channels + c, bitDepth));
+      }
+      const target = (y * width + x) * 4;
+      if (colorType === 3) {
+        const index = samples[0];
+        if (index * 3 + 2 >= palette!.length) {
+          throw new Error('PNG palette index out of range');
+        }
+        pixels.set([palette![index * 3], palette![index * 3 + 1], palette![index * 3 + 2]], target);
+        pixels[target + 3] = paletteAlpha && index < paletteAlpha.length ? paletteAlpha[index] : 255;
+        continue;
+      }
+      // Scale low bit depths up to 0-255; 16-bit samples already keep just their high byte
+      const scaled = samples.map(sample => Math.round((sample * 255) / maxSample));
+      if (channels <= 2) {
+        pixels.set([scaled[0], scaled[0], scaled[0], channels === 2 ? scaled[1] : 255], target);
+      } else {
+        pixels.set([scaled[0], scaled[1], scaled[2], channels === 4 ? scaled[3] : 255], target);
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+// Undo the per-row filters (None, Sub, Up, Average, Paeth) into contiguous rows
+function unfilter(raw: Buffer, stride: number, height: number, bytesPerPixel: number) {
+  if (raw.length < (stride + 1) * height) {
+    throw new Error('PNG image data is truncated');
+  }
+  const rows = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const start = y * stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bytesPerPixel ? rows[start + i - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[start + i - stride] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? rows[start + i - stride - bytesPerPixel] : 0;
+      let predictor = 0;
+      if (filter === 1) {
+        predictor = left;
+      } else if (filter === 2) {
+        predictor = up;
+      } else if (filter === 3) {
+        predictor = (left + up) >> 1;
+      } else if (filter === 4) {
+        predictor = paeth(left, up, upLeft);
+      } else if (filter !== 0) {
+        throw new Error(`Unknown PNG filter ${filter}`);
+      }
+      rows[start + i] = (raw[source + i] + predictor) & 255;
+    }
+  }
+  return rows;
+}
+
+function paeth(left: number, up: number, upLeft: number) {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  return toLeft <= toUp && toLeft <= toUpLeft ? left : toUp <= toUpLeft ? up : upLeft;
+}
+
+// One sample from a packed row; 16-bit samples are reduced to their high byte
+function readSample(row: Uint8Array, index: number, bitDepth: number) {
+  if (bitDepth === 8) {
+    return row[index];
+  }
+  if (bitDepth === 16) {
+    return row[index * 2];
+  }
+  const bit = index * bitDepth;
+  return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & ((1 << bitDepth) - 1);
+}
@@ -0,0 +1,39 @@
+// Brand Kit - Shapes shared by the import route and the builder (safe to use in the browser)
+import type { CustomTheme } from '../themes';
+
+export interface BrandKitInput {
+  // Logo as a data URL (PNG or SVG)
+  logo?: string;
+  // Hex colors, as a list or pasted text ("#1E40AF, #F59E0B")
+  colors?: string | string[];
+  font?: string;
+  name?: string;
+  dark?: boolean;
+}
+
+// WCAG levels: AA needs 4.5:1 for body text, 3:1 for large text, AAA needs 7:1
+export type ContrastLevel = 'AAA' | 'AA' | 'AA large' | 'fail';
+
+export interface ContrastCheck {
+  // e.g. 'Text on background'
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  // Ratio the pair needs for how the theme uses it
+  required: number;
+  passes: boolean;
+  level: ContrastLevel;
+}
+
+export interface BrandKitResult {
+  theme: CustomTheme;
+  // Dominant colors found in the logo and pasted list, most prominent first
+  palette: string[];
+  contrast: ContrastCheck[];
+  // Adjustments made for readability and anything the theme could not honor
+  warnings: string[];
+}
+
+// Decoded logo size limit; the JSON body carries it base64 encoded
+export const MAX_LOGO_BYTES = 1024 * 1024;
@@ -0,0 +1,138 @@
+// Diff - Line-based side-by-side diff between two versions of a file
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  type: DiffRowType;
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffResult {
+  rows: DiffRow[];
+  added: number;
+  removed: number;
+}
+
+// Above this many cells the LCS table gets too large for the browser; fall back to a plain replacement
+const MAX_LCS_CELLS = 4000000;
+
+// Compute a side-by-side diff; adjacent removals and additions are paired into "changed" rows
+export function diffLines(before: string, after: string): DiffResult {
+  const left = (before || '').split('\n');
+  const right = (after || '').split('\n');
+  const operations = computeOperations(left, right);
+
+  const rows: DiffRow[] = [];
+  let added = 0;
+  let removed = 0;
+  let pendingRemoved: DiffLine[] = [];
+  let pendingAdded: DiffLine[] = [];
+
+  const flush = () => {
+    const count = Math.max(pendingRemoved.length, pendingAdded.length);
+    for (let i = 0; i < count; i++) {
+      const removedLine = pendingRemoved[i];
+      const addedLine = pendingAdded[i];
+      rows.push({
+        type: removedLine && addedLine ? 'changed' : removedLine ? 'removed' : 'added',
+        left: removedLine,
+        right: addedLine
+      });
+    }
+    pendingRemoved = [];
+    pendingAdded = [];
+  };
+
+  for (const op of operations) {
+    if (op.type === 'same') {
+      flush();
+      rows.push({
+        type: 'same',
+        left: { number: op.leftIndex + 1, text: left[op.leftIndex] },
+        right: { number: op.rightIndex + 1, text: right[op.rightIndex] }
+      });
+    } else if (op.type === 'removed') {
+      removed++;
+      pendingRemoved.push({ number: op.leftIndex + 1, text: left[op.leftIndex] });
+    } else {
+      added++;
+      pendingAdded.push({ number: op.rightIndex + 1, text: right[op.rightIndex] });
+    }
+  }
+  flush();
+
+  return { rows, added, removed };
+}
+
+interface Operation {
+  type: 'same' | 'added' | 'removed';
+  leftIndex?: number;
+  rightIndex?: number;
+}
+
+function computeOperations(left: string[], right: string[]): Operation[] {
+  // Trim the common prefix and suffix so the LCS table only covers the changed region
+  let start = 0;
+  while (start < left.length && start < right.length && left[start] === right[start]) {
+    start++;
+  }
+  let leftEnd = left.length;
+  let rightEnd = right.length;
+  while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+    leftEnd--;
+    rightEnd--;
+  }
+
+  const operations: Operation[] = [];
+  for (let i = 0; i < start; i++) {
+    operations.push({ type: 'same', leftIndex: i, rightIndex: i });
+  }
+
+  const n = leftEnd - start;
+  const m = rightEnd - start;
+
+  if (n * m > MAX_LCS_CELLS) {
+    for (let i = start; i < leftEnd; i++) operations.push({ type: 'removed', leftIndex: i });
+    for (let j = start; j < rightEnd; j++) operations.push({ type: 'added', rightIndex: j });
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of left[start + i..] and right[start + j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = left[start + i] === right[start + j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (left[start + i] === right[start + j]) {
+        operations.push({ type: 'same', leftIndex: start + i, rightIndex: start + j });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        operations.push({ type: 'removed', leftIndex: start + i });
+        i++;
+      } else {
+        operations.push({ type: 'added', rightIndex: start + j });
+        j++;
+      }
+    }
+    for (; i < n; i++) operations.push({ type: 'removed', leftIndex: start + i });
+    for (; j < m; j++) operations.push({ type: 'added', rightIndex: start + j });
+  }
+
+  for (let k = 0; leftEnd + k < left.length; k++) {
+    operations.push({ type: 'same', leftIndex: leftEnd + k, rightIndex: rightEnd + k });
+  }
+
+  return operations;
+}
@@ -0,0 +1,45 @@
+// Download - Browser helper that requests a project archive and saves it
+import type { ExportTargetId } from './export-targets/types';
+import type { TypeCheckResult } from './type-check';
+
+// Request the archive (or single HTML file) for an app; if it has type errors, ask before downloading it anyway
+export async function downloadProject(appData: any, target: ExportTargetId = 'bun') {
+  let response = await postDownload(appData, target, false);
+
+  if (response.status === 422) {
+    const { typeCheck } = await response.json() as { typeCheck: TypeCheckResult };
+    const summary = typeCheck.diagnostics.slice(0, 5)
+      .map(d => `${d.file}:${d.line}:${d.column} ${d.message}`)
+      .join('\n');
+    const proceed = window.confirm(
+      `This app has ${typeCheck.diagnostics.length} TypeScript error(s):\n\n${summary}\n\nDownload it anyway?`
+    );
+    if (!proceed) {
+      return false;
+    }
+    response = await postDownload(appData, target, true);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || 'vibe-app.zip';
+  const url = URL.createObjectURL(await response.blob());
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+  return true;
+}
+
+function postDownload(appData: any, target: ExportTargetId, acknowledgeTypeErrors: boolean) {
+  return fetch('/api/download-app', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ appData, target, acknowledgeTypeErrors })
+  });
+}
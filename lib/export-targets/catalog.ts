@@ -0,0 +1,15 @@
+// Export Catalog - The download targets offered by /api/download-app and the builder
+import type { ExportTargetId, ExportTargetInfo } from './types';
+
+export const EXPORT_TARGETS: ExportTargetInfo[] = [
+  { id: 'bun', label: 'Bun + Hono', description: 'Bun bundler and a Hono server for the built app', format: 'zip' },
+  { id: 'vite', label: 'Vite SPA', description: 'Vite + React single-page app', format: 'zip' },
+  { id: 'next', label: 'Next.js', description: 'Next.js app-router project', format: 'zip' },
+  { id: 'html', label: 'Single HTML file', description: 'One self-contained index.html for quick sharing', format: 'html' }
+];
+
+export const DEFAULT_EXPORT_TARGET: ExportTargetId = 'bun';
+
+export function isExportTarget(value: unknown): value is ExportTargetId {
+  return EXPORT_TARGETS.some(target => target.id === value);
+}
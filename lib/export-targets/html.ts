@@ -0,0 +1,66 @@
+// Single HTML Target - One self-contained index.html with React, the compiled Tailwind CSS and the transpiled app inlined
+import { readFileSync } from 'fs';
+import path from 'path';
+import autoprefixer from 'autoprefixer';
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss';
+import { AppData, TAILWIND_DIRECTIVES, escapeHtml, generateSourceFiles, getTailwindTheme, usesTailwind } from '../app-generator';
+import { moduleRuntime, transpileFiles } from '../preview';
+
+// Production React builds, read once from node_modules; the server bundle cannot require.resolve them
+// (next.config.js traces these files into the download route)
+const RUNTIME_FILES = [
+  'react/umd/react.production.min.js',
+  'react-dom/umd/react-dom.production.min.js'
+];
+
+let runtimeScripts: string[] | null = null;
+
+export async function generateHtmlFile(appData: AppData): Promise<Record<string, string>> {
+  const sourceFiles = generateSourceFiles(appData);
+  const { entry, modules, styles, errors } = transpileFiles(sourceFiles);
+  if (errors.length > 0) {
+    throw new Error(`Could not transpile ${errors.map(error => `${error.file}: ${error.message}`).join('; ')}`);
+  }
+  const tailwindStyles = usesTailwind(appData) ? await compileTailwind(appData, sourceFiles) : '';
+
+  return {
+    'index.html': `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(appData.title || 'Vibe App')}</title>
+<meta name="description" content="${escapeHtml(appData.description || '')}" />
+${loadRuntimeScripts().map(script => `<script>${script}</script>`).join('\n')}
+${tailwindStyles ? `<style>${tailwindStyles}</style>\n` : ''}</head>
+<body>
+<div id="root"></div>
+<script>${inlineScript(moduleRuntime(entry, modules, styles))}</script>
+</body>
+</html>
+`
+  };
+}
+
+// Only the utilities the app's sources use, themed like the project exports' tailwind.config.js
+async function compileTailwind(appData: AppData, sourceFiles: Record<string, string>) {
+  const content = Object.values(sourceFiles).map(raw => ({ raw, extension: 'tsx' }));
+  const result = await postcss([
+    tailwindcss({ content, theme: getTailwindTheme(appData) }),
+    autoprefixer()
+  ]).process(TAILWIND_DIRECTIVES, { from: undefined });
+  return result.css.replace(/<\/style/gi, '<\\/style');
+}
+
+function loadRuntimeScripts() {
+  if (!runtimeScripts) {
+    runtimeScripts = RUNTIME_FILES.map(file => inlineScript(readFileSync(path.join(process.cwd(), 'node_modules', file), 'utf8')));
+  }
+  return runtimeScripts;
+}
+
+// Keep inlined code from closing its own <script> element
+function inlineScript(code: string) {
+  return code.replace(/<\/script/gi, '<\\/script');
+}
@@ -0,0 +1,26 @@
+// Export Targets - One template module per download format, all fed the same AppData
+import { generateProjectFiles } from '../app-generator';
+import { DEFAULT_EXPORT_TARGET, EXPORT_TARGETS } from './catalog';
+import { generateHtmlFile } from './html';
+import { generateNextProject } from './next';
+import { generateViteProject } from './vite';
+import type { ExportTargetId, ExportTemplate } from './types';
+
+export type { ExportTargetId, ExportTargetInfo, ExportTemplate } from './types';
+export { DEFAULT_EXPORT_TARGET, EXPORT_TARGETS, isExportTarget } from './catalog';
+
+const GENERATORS: Record<ExportTargetId, ExportTemplate['generate']> = {
+  // The Bun + Hono project is the workspace layout, so app-generator builds it directly
+  bun: generateProjectFiles,
+  vite: generateViteProject,
+  next: generateNextProject,
+  html: generateHtmlFile
+};
+
+export function getExportTemplate(id: ExportTargetId = DEFAULT_EXPORT_TARGET): ExportTemplate {
+  const info = EXPORT_TARGETS.find(target => target.id === id);
+  if (!info) {
+    throw new Error(`Unknown export target "${id}"`);
+  }
+  return { ...info, generate: GENERATORS[id] };
+}
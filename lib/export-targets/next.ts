@@ -0,0 +1,168 @@
+// Next.js Target - App-router project that renders the generated App on the client
+import {
+  AppData,
+  TAILWIND_DEV_DEPENDENCIES,
+  TAILWIND_DIRECTIVES,
+  generateGitignore,
+  generatePostcssConfig,
+  generateReadme,
+  generateSourceFiles,
+  generateTailwindConfig,
+  getProjectSlug,
+  usesTailwind
+} from '../app-generator';
+
+// Next treats src/pages as the pages router, so the app's modules move to their own folder
+const SOURCE_DIR = 'vibe';
+
+export function generateNextProject(appData: AppData): Record<string, string> {
+  const sourceFiles: Record<string, string> = {};
+  for (const [filePath, content] of Object.entries(generateSourceFiles(appData))) {
+    sourceFiles[filePath.replace(/^src\//, `${SOURCE_DIR}/`)] = content;
+  }
+  // Next.js picks up postcss.config.js itself; the package is not an ES module, so configs use module.exports
+  const tailwind = usesTailwind(appData);
+
+  return {
+    'package.json': generatePackageJson(getProjectSlug(appData.title), tailwind),
+    'tsconfig.json': generateTsConfig(),
+    'next.config.mjs': generateNextConfig(),
+    'next-env.d.ts': '/// <reference types="next" />\n/// <reference types="next/image-types/global" />\n',
+    ...(tailwind ? {
+      'tailwind.config.js': generateTailwindConfig(appData, { content: ['./app/**/*.{ts,tsx}', `./${SOURCE_DIR}/**/*.{ts,tsx,js,jsx}`], format: 'commonjs' }),
+      'postcss.config.js': generatePostcssConfig('commonjs'),
+      [`${SOURCE_DIR}/tailwind.css`]: TAILWIND_DIRECTIVES
+    } : {}),
+    'app/layout.tsx': generateLayout(appData, tailwind),
+    'app/page.tsx': generatePage(),
+    ...sourceFiles,
+    'README.md': generateReadme(appData, {
+      quickStart: `# Install dependencies
+npm install
+
+# Start the development server at http://localhost:3000
+npm run dev
+
+# Build and serve for production
+npm run build
+npm run start`,
+      deploy: 'Run `vercel` in this folder, or deploy anywhere that runs Next.js with `npm run build && npm run start`.',
+      tooling: [
+        'app/',
+        '├── layout.tsx       # Root layout, metadata and global styles',
+        `└── page.tsx         # Renders ${SOURCE_DIR}/App.tsx on the client`,
+        'next.config.mjs      # Next.js config',
+        ...(tailwind ? [
+          'tailwind.config.js   # Tailwind content paths and theme colors',
+          'postcss.config.js    # Runs Tailwind and Autoprefixer on imported CSS'
+        ] : [])
+      ],
+      builtWith: ['**Next.js** - App router, dev server and build'],
+      entryFile: false,
+      sourceDir: SOURCE_DIR
+    }),
+    '.gitignore': `${generateGitignore()}
+
+# Next.js
+.next/
+out/`
+  };
+}
+
+function generatePackageJson(projectName: string, tailwind: boolean) {
+  return JSON.stringify({
+    name: projectName,
+    version: '1.0.0',
+    description: 'A beautiful Vibe App',
+    private: true,
+    scripts: {
+      dev: 'next dev',
+      build: 'next build',
+      start: 'next start'
+    },
+    dependencies: {
+      'next': '^14.2.0',
+      'react': '^18.2.0',
+      'react-dom': '^18.2.0'
+    },
+    devDependencies: {
+      '@types/node': '^20.0.0',
+      '@types/react': '^18.2.0',
+      '@types/react-dom': '^18.2.0',
+      'typescript': '^5.0.0',
+      ...(tailwind ? TAILWIND_DEV_DEPENDENCIES : {})
+    }
+  }, null, 2);
+}
+
+function generateTsConfig() {
+  return JSON.stringify({
+    compilerOptions: {
+      target: 'ES2020',
+      lib: ['dom', 'dom.iterable', 'esnext'],
+      allowJs: true,
+      skipLibCheck: true,
+      strict: false,
+      noEmit: true,
+      esModuleInterop: true,
+      module: 'esnext',
+      moduleResolution: 'bundler',
+      resolveJsonModule: true,
+      isolatedModules: true,
+      jsx: 'preserve',
+      incremental: true,
+      plugins: [{ name: 'next' }]
+    },
+    include: ['next-env.d.ts', '**/*.ts', '**/*.tsx', '.next/types/**/*.ts'],
+    exclude: ['node_modules']
+  }, null, 2);
+}
+
+function generateNextConfig() {
+  return `/** @type {import('next').NextConfig} */
+const nextConfig = {
+  reactStrictMode: true,
+  // The app router forces strictNullChecks, which code written for loose type checking rarely passes;
+  // the generator already type-checked these files before export
+  typescript: {
+    ignoreBuildErrors: true
+  }
+};
+
+export default nextConfig;
+`;
+}
+
+function generateLayout(appData: AppData, tailwind: boolean) {
+  return `import type { Metadata } from 'next';
+${tailwind ? `import '../${SOURCE_DIR}/tailwind.css';\n` : ''}import '../${SOURCE_DIR}/theme.css';
+import '../${SOURCE_DIR}/styles.css';
+
+export const metadata: Metadata = {
+  title: ${JSON.stringify(appData.title || 'Vibe App')},
+  description: ${JSON.stringify(appData.description || '')}
+};
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`;
+}
+
+// Generated apps are written for the browser (window, localStorage, hash routing), so they skip server rendering
+function generatePage() {
+  return `'use client';
+
+import dynamic from 'next/dynamic';
+
+const App = dynamic(() => import('../${SOURCE_DIR}/App'), { ssr: false });
+
+export default function Page() {
+  return <App />;
+}
+`;
+}
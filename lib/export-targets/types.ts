@@ -0,0 +1,18 @@
+// Export Target Types - The contract every download template implements
+import type { AppData } from '../app-generator';
+
+export type ExportTargetId = 'bun' | 'vite' | 'next' | 'html';
+
+// What the builder shows for a target; safe to import in the browser
+export interface ExportTargetInfo {
+  id: ExportTargetId;
+  label: string;
+  description: string;
+  // zip: a project folder archive; html: one standalone index.html
+  format: 'zip' | 'html';
+}
+
+export interface ExportTemplate extends ExportTargetInfo {
+  // Project files keyed by path, all built from the same AppData
+  generate(appData: AppData): Record<string, string> | Promise<Record<string, string>>;
+}
@@ -0,0 +1,134 @@
+// Vite Target - Vite + React single-page app
+import {
+  AppData,
+  TAILWIND_DEV_DEPENDENCIES,
+  TAILWIND_DIRECTIVES,
+  escapeHtml,
+  generateGitignore,
+  generateIndexFile,
+  generatePostcssConfig,
+  generateReadme,
+  generateSourceFiles,
+  generateTailwindConfig,
+  getProjectSlug,
+  usesTailwind
+} from '../app-generator';
+
+export function generateViteProject(appData: AppData): Record<string, string> {
+  // Vite runs PostCSS on imported CSS, so Tailwind only needs its configs and the directives
+  const tailwind = usesTailwind(appData);
+
+  return {
+    'package.json': generatePackageJson(getProjectSlug(appData.title), tailwind),
+    'tsconfig.json': generateTsConfig(),
+    'vite.config.ts': generateViteConfig(),
+    'index.html': generateHtmlEntry(appData),
+    ...(tailwind ? {
+      'tailwind.config.js': generateTailwindConfig(appData, { content: ['./index.html', './src/**/*.{ts,tsx,js,jsx}'], format: 'esm' }),
+      'postcss.config.js': generatePostcssConfig('esm'),
+      'src/tailwind.css': TAILWIND_DIRECTIVES
+    } : {}),
+    ...generateSourceFiles(appData),
+    'src/index.tsx': generateIndexFile({ tailwindStylesheet: tailwind }),
+    'src/vite-env.d.ts': '/// <reference types="vite/client" />\n',
+    'README.md': generateReadme(appData, {
+      quickStart: `# Install dependencies
+npm install
+
+# Start the development server at http://localhost:5173
+npm run dev
+
+# Build for production into dist/
+npm run build
+
+# Serve the production build locally
+npm run preview`,
+      deploy: 'Any static host works: upload `dist/` after `npm run build`. `vercel.json` sends every route to `index.html`, so running `vercel` in this folder is enough.',
+      tooling: [
+        'index.html           # HTML entry loading src/index.tsx',
+        'vite.config.ts       # Vite with the React plugin',
+        ...(tailwind ? [
+          'tailwind.config.js   # Tailwind content paths and theme colors',
+          'postcss.config.js    # Runs Tailwind and Autoprefixer on imported CSS'
+        ] : [])
+      ],
+      builtWith: ['**Vite** - Dev server and bundler']
+    }),
+    'vercel.json': JSON.stringify({
+      rewrites: [{ source: '/(.*)', destination: '/index.html' }]
+    }, null, 2),
+    '.gitignore': generateGitignore()
+  };
+}
+
+function generatePackageJson(projectName: string, tailwind: boolean) {
+  return JSON.stringify({
+    name: projectName,
+    version: '1.0.0',
+    description: 'A beautiful Vibe App',
+    private: true,
+    type: 'module',
+    scripts: {
+      dev: 'vite',
+      build: 'vite build',
+      preview: 'vite preview',
+      typecheck: 'tsc --noEmit'
+    },
+    dependencies: {
+      'react': '^18.2.0',
+      'react-dom': '^18.2.0'
+    },
+    devDependencies: {
+      '@types/react': '^18.2.0',
+      '@types/react-dom': '^18.2.0',
+      '@vitejs/plugin-react': '^4.3.0',
+      'typescript': '^5.0.0',
+      'vite': '^5.4.0',
+      ...(tailwind ? TAILWIND_DEV_DEPENDENCIES : {})
+    }
+  }, null, 2);
+}
+
+function generateTsConfig() {
+  return JSON.stringify({
+    compilerOptions: {
+      target: 'ES2020',
+      lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+      module: 'ESNext',
+      moduleResolution: 'bundler',
+      jsx: 'react-jsx',
+      strict: false,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true
+    },
+    include: ['src', 'vite.config.ts']
+  }, null, 2);
+}
+
+function generateViteConfig() {
+  return `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()]
+});
+`;
+}
+
+function generateHtmlEntry(appData: AppData) {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(appData.title || 'Vibe App')}</title>
+    <meta name="description" content="${escapeHtml(appData.description || '')}" />
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/index.tsx"></script>
+  </body>
+</html>
+`;
+}
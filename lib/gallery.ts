@@ -0,0 +1,79 @@
+// Gallery - Search, filter, sort and page published apps for the public gallery
+import { AppSummary, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, listAppSummaries } from './storage';
+
+export type GallerySort = 'newest' | 'forks';
+
+export interface GalleryQuery {
+  q?: string;
+  theme?: string;
+  layout?: string;
+  sort?: GallerySort;
+  cursor?: string;
+  limit?: number;
+}
+
+// Gallery cards only need the indexed summary, not every source file or who saved it
+export type GalleryItem = Omit<AppSummary, 'ownerId'>;
+
+export interface GalleryPage {
+  apps: GalleryItem[];
+  cursor: string | null;
+  total: number;
+}
+
+// Read gallery query parameters from a request query object
+export function parseGalleryQuery(query: Record<string, string | string[] | undefined>): GalleryQuery {
+  const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || undefined;
+  const limit = parseInt(first(query.limit) || '', 10);
+
+  return {
+    q: first(query.q)?.trim() || undefined,
+    theme: first(query.theme),
+    layout: first(query.layout),
+    sort: first(query.sort) === 'forks' ? 'forks' : 'newest',
+    cursor: first(query.cursor),
+    limit: isNaN(limit) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limit, 1), MAX_PAGE_SIZE)
+  };
+}
+
+// Every search term must appear in the title or description (case-insensitive)
+export function matchesGalleryQuery(item: GalleryItem, { q, theme, layout }: GalleryQuery) {
+  if (theme && item.theme !== theme) return false;
+  if (layout && item.layout !== layout) return false;
+  if (!q) return true;
+
+  const haystack = `${item.title} ${item.description}`.toLowerCase();
+  return q.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+}
+
+// Filter and sort the gallery from the index in one read; the cursor is the offset of the next page
+export async function queryGallery(query: GalleryQuery): Promise<GalleryPage> {
+  const published = (await listAppSummaries()).filter(app => app.published).map(toGalleryItem);
+  return paginateGallery(published, query);
+}
+
+export function toGalleryItem(summary: AppSummary): GalleryItem {
+  const { ownerId, ...item } = summary;
+  return item;
+}
+
+// Apply filters, sort order and the offset cursor to already-loaded gallery items
+export function paginateGallery(items: GalleryItem[], query: GalleryQuery): GalleryPage {
+  const matches = items.filter(item => matchesGalleryQuery(item, query));
+  matches.sort((a, b) => {
+    if (query.sort === 'forks' && a.forks !== b.forks) {
+      return b.forks - a.forks;
+    }
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  });
+
+  const offset = Math.max(parseInt(query.cursor || '0', 10) || 0, 0);
+  const limit = query.limit || DEFAULT_PAGE_SIZE;
+  const next = offset + limit;
+
+  return {
+    apps: matches.slice(offset, next),
+    cursor: next < matches.length ? String(next) : null,
+    total: matches.length
+  };
+}
@@ -0,0 +1,123 @@
+// Generation Cache - Reuse finished generations for identical requests and share in-flight ones
+import { createHash } from 'crypto';
+import { GenerateRequest, GeneratedApp, GenerationHooks, PROMPT_VERSION, generateApp } from '../generation';
+import type { LLMProvider } from '../providers';
+import { CUSTOM_THEME_ID } from '../themes';
+import { createMemoryCacheStore } from './memory';
+import type { GenerationCacheStore } from './types';
+
+export type { CacheEntry, GenerationCacheStore } from './types';
+export { createMemoryCacheStore } from './memory';
+
+export interface GenerationCacheConfig {
+  // 0 turns caching off (in-flight sharing still applies)
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+let store: GenerationCacheStore | null = null;
+// Model calls currently running, by cache key
+const inFlight = new Map<string, Promise<GeneratedApp>>();
+
+// Limits from GENERATION_CACHE_TTL_SECONDS, GENERATION_CACHE_MAX_ENTRIES and GENERATION_CACHE_MAX_MB
+export function getGenerationCacheConfig(): GenerationCacheConfig {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseFloat(value || '');
+    return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+  };
+
+  return {
+    ttlMs: number(process.env.GENERATION_CACHE_TTL_SECONDS, 3600) * 1000,
+    maxEntries: Math.max(Math.floor(number(process.env.GENERATION_CACHE_MAX_ENTRIES, 200)), 1),
+    maxBytes: number(process.env.GENERATION_CACHE_MAX_MB, 25) * 1024 * 1024
+  };
+}
+
+// Store chosen by GENERATION_CACHE_STORE; only "memory" ships today
+export function getGenerationCacheStore(): GenerationCacheStore {
+  if (!store) {
+    const name = process.env.GENERATION_CACHE_STORE || 'memory';
+    if (name !== 'memory') {
+      throw new Error(`Unknown GENERATION_CACHE_STORE "${name}"; expected "memory"`);
+    }
+    const { maxEntries, maxBytes } = getGenerationCacheConfig();
+    store = createMemoryCacheStore({ maxEntries, maxBytes });
+  }
+  return store;
+}
+
+// Requests differing only in case or whitespace share an entry; prompt or model changes start a new one
+export function generationCacheKey(request: GenerateRequest, provider: LLMProvider) {
+  const normalized = {
+    promptVersion: PROMPT_VERSION,
+    provider: provider.id,
+    model: provider.model,
+    idea: String(request.idea || '').trim().replace(/\s+/g, ' ').toLowerCase(),
+    theme: request.theme,
+    customTheme: request.theme === CUSTOM_THEME_ID ? request.customTheme : undefined,
+    layout: request.layout,
+    mode: request.mode === 'multi' ? 'multi' : 'single'
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+// A finished generation for this request, if one is cached
+export async function readCachedApp(request: GenerateRequest, provider: LLMProvider): Promise<GeneratedApp | null> {
+  if (getGenerationCacheConfig().ttlMs === 0) {
+    return null;
+  }
+  const entry = await getGenerationCacheStore().get(generationCacheKey(request, provider));
+  return entry ? withNewIdentity(entry.app, { status: 'hit', cachedAt: entry.cachedAt }) : null;
+}
+
+// Generate, joining an identical request that is already running unless fresh is set; successful results are cached.
+// Private generations (on the caller's own API key) neither join, feed nor get shared through the cache: a
+// bad key's error must not reach other callers, and output they paid for is not served to anyone else
+export async function generateAppCached(
+  request: GenerateRequest,
+  hooks: GenerationHooks = {},
+  provider: LLMProvider,
+  { fresh = false, private: isPrivate = false } = {}
+): Promise<GeneratedApp> {
+  if (isPrivate) {
+    return { ...await generateApp(request, hooks, provider), cache: { status: 'bypass' } };
+  }
+
+  const key = generationCacheKey(request, provider);
+
+  const running = inFlight.get(key);
+  if (running && !fresh) {
+    hooks.onPhase?.('prompting');
+    return withNewIdentity(await running, { status: 'shared' });
+  }
+
+  const generation = generateApp(request, hooks, provider).then(async (app) => {
+    const { ttlMs } = getGenerationCacheConfig();
+    // Fallback templates stand in for a failed generation, so they are never reused
+    if (ttlMs > 0 && app.generation?.path !== 'fallback') {
+      await getGenerationCacheStore().set(key, { app, cachedAt: new Date().toISOString() }, ttlMs);
+    }
+    return app;
+  });
+
+  inFlight.set(key, generation);
+  try {
+    const app = await generation;
+    return { ...app, cache: { status: fresh ? 'bypass' : 'miss' } };
+  } finally {
+    if (inFlight.get(key) === generation) {
+      inFlight.delete(key);
+    }
+  }
+}
+
+// Every client gets its own app id and timestamp, even when the content is shared
+function withNewIdentity(app: GeneratedApp, cache: GeneratedApp['cache']): GeneratedApp {
+  return {
+    ...app,
+    id: Math.random().toString(36).substring(2, 15),
+    timestamp: Date.now(),
+    cache
+  };
+}
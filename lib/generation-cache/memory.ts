@@ -0,0 +1,60 @@
+// Memory Store - Per-process LRU cache of generated apps with expiry and entry/byte limits
+import type { CacheEntry, GenerationCacheStore } from './types';
+
+export interface MemoryCacheLimits {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export function createMemoryCacheStore({ maxEntries, maxBytes }: MemoryCacheLimits): GenerationCacheStore {
+  // Map order doubles as recency order: oldest first
+  const entries = new Map<string, { entry: CacheEntry; expiresAt: number; bytes: number }>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const stored = entries.get(key);
+    if (stored) {
+      totalBytes -= stored.bytes;
+      entries.delete(key);
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) {
+        return null;
+      }
+      if (stored.expiresAt <= Date.now()) {
+        remove(key);
+        return null;
+      }
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, stored);
+      return stored.entry;
+    },
+
+    async set(key, entry, ttlMs) {
+      const bytes = JSON.stringify(entry).length;
+      remove(key);
+      if (bytes > maxBytes) {
+        return;
+      }
+
+      entries.set(key, { entry, expiresAt: Date.now() + ttlMs, bytes });
+      totalBytes += bytes;
+      // Evict least recently used entries until both limits hold
+      const keys = entries.keys();
+      while (entries.size > maxEntries || totalBytes > maxBytes) {
+        remove(keys.next().value);
+      }
+    },
+
+    async delete(key) {
+      remove(key);
+    }
+  };
+}
@@ -0,0 +1,15 @@
+// Generation Cache Types - Cached generations and the store contract behind lib/generation-cache
+import type { GeneratedApp } from '../generation';
+
+export interface CacheEntry {
+  app: GeneratedApp;
+  cachedAt: string;
+}
+
+export interface GenerationCacheStore {
+  name: string;
+  // Null when missing or expired
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
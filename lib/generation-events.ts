@@ -0,0 +1,90 @@
+// Generation Events - NDJSON protocol for the streaming generate endpoint (shared by server and client)
+export type GenerationPhase = 'prompting' | 'parsing' | 'validating' | 'type-checking' | 'repairing' | 'packaging';
+
+export const GENERATION_PHASES: GenerationPhase[] = ['prompting', 'parsing', 'validating', 'type-checking', 'repairing', 'packaging'];
+
+export type GenerationEvent =
+  | { type: 'phase'; phase: GenerationPhase }
+  | { type: 'token'; text: string }
+  | { type: 'done'; app: any }
+  | { type: 'error'; error: string; details?: string };
+
+// Serialize one event as a newline-delimited JSON line
+export function encodeGenerationEvent(event: GenerationEvent) {
+  return JSON.stringify(event) + '\n';
+}
+
+// Read an NDJSON response body, invoking the callback for every event
+export async function readGenerationEvents(response: Response, onEvent: (event: GenerationEvent) => void) {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value || new Uint8Array(), { stream: !done });
+
+    let newlineIndex = buffer.indexOf('\n');
+    while (newlineIndex !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (line) {
+        onEvent(JSON.parse(line));
+      }
+      newlineIndex = buffer.indexOf('\n');
+    }
+
+    if (done) {
+      if (buffer.trim()) {
+        onEvent(JSON.parse(buffer));
+      }
+      return;
+    }
+  }
+}
+
+// Decode the (possibly incomplete) "App.tsx" string from a partial JSON response
+export function extractPartialAppCode(rawResponse: string) {
+  const keyMatch = rawResponse.match(/"App\.tsx"\s*:\s*"/);
+  if (!keyMatch) {
+    return '';
+  }
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+  let code = '';
+  let i = keyMatch.index + keyMatch[0].length;
+
+  while (i < rawResponse.length) {
+    const char = rawResponse[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== '\\') {
+      code += char;
+      i++;
+      continue;
+    }
+
+    const next = rawResponse[i + 1];
+    if (next === undefined) {
+      break; // Escape sequence split across chunks
+    }
+    if (next === 'u') {
+      const hex = rawResponse.slice(i + 2, i + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      code += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+    code += escapes[next] ?? next;
+    i += 2;
+  }
+
+  return code;
+}
@@ -0,0 +1,117 @@
+// Logger - Structured JSON log lines with levels, request ids, and redaction of secrets and user content
+import { randomBytes } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger that adds these fields to every line, e.g. a request id
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Values under these keys are never written
+const SECRET_KEYS = /^(?:api[-_]?key|x-anthropic-key|authorization|cookie|set-cookie|token|secret|password)$/i;
+// User content and generated code are logged as their size only
+const CONTENT_KEYS = /^(?:idea|instruction|history|prompt|messages|code|files|text|response|appData|summary|title|description)$/i;
+// Anthropic keys that turn up inside other strings, such as SDK error messages
+const API_KEY_PATTERN = /sk-ant-[A-Za-z0-9_-]+/g;
+const MAX_STRING = 500;
+const MAX_DEPTH = 4;
+
+const REQUEST_ID_HEADER = 'x-request-id';
+
+// Minimum level from LOG_LEVEL (default "info")
+function minimumLevel() {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel;
+  return LEVELS[level] || LEVELS.info;
+}
+
+// Copy of a value that is safe to log
+export function redact(value: unknown, key = '', depth = 0): unknown {
+  if (key && SECRET_KEYS.test(key)) {
+    return '[redacted]';
+  }
+  if (key && CONTENT_KEYS.test(key) && value !== undefined && value !== null) {
+    return `[${contentSize(value)}]`;
+  }
+  if (typeof value === 'string') {
+    const clean = value.replace(API_KEY_PATTERN, '[redacted]');
+    return clean.length > MAX_STRING ? `${clean.slice(0, MAX_STRING)}…` : clean;
+  }
+  if (value instanceof Error) {
+    const { status } = value as Error & { status?: number };
+    return redact({ name: value.name, message: value.message, status }, key, depth);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, '', depth + 1));
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [field, item] of Object.entries(value)) {
+    if (item !== undefined) {
+      copy[field] = redact(item, field, depth + 1);
+    }
+  }
+  return copy;
+}
+
+function contentSize(value: unknown) {
+  if (typeof value === 'string') {
+    return `${value.length} chars`;
+  }
+  if (Array.isArray(value)) {
+    return `${value.length} items`;
+  }
+  return typeof value === 'object' ? `${Object.keys(value as object).length} keys` : typeof value;
+}
+
+export function createLogger(context: LogFields = {}): Logger {
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < minimumLevel()) {
+      return;
+    }
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...(redact({ ...context, ...fields }) as LogFields)
+    });
+    if (level === 'error' || level === 'warn') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: (message, fields) => write('debug', message, fields),
+    info: (message, fields) => write('info', message, fields),
+    warn: (message, fields) => write('warn', message, fields),
+    error: (message, fields) => write('error', message, fields),
+    child: (fields) => createLogger({ ...context, ...fields })
+  };
+}
+
+export const logger = createLogger();
+
+// Logger for one API request; reuses a well-formed incoming X-Request-Id and echoes the id back
+export function requestLogger(req: NextApiRequest, res: NextApiResponse): Logger & { requestId: string } {
+  const incoming = req.headers[REQUEST_ID_HEADER];
+  const requestId = typeof incoming === 'string' && /^[A-Za-z0-9_-]{8,64}$/.test(incoming)
+    ? incoming
+    : randomBytes(8).toString('hex');
+  res.setHeader('X-Request-Id', requestId);
+  return { ...logger.child({ requestId, route: (req.url || '').split('?')[0] }), requestId };
+}
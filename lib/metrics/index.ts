@@ -0,0 +1,140 @@
+// Generation Metrics - Per-request telemetry for the model routes and the aggregate behind /api/admin/stats
+import type { GeneratedApp, GenerationReport } from '../generation';
+import type { Logger } from '../logger';
+import type { TokenUsage } from '../providers';
+import { createMemoryMetricsStore } from './memory';
+import type { GenerationMetric, GenerationStats, LatencyStats, MetricsStore } from './types';
+
+export type { GenerationKind, GenerationMetric, GenerationStats, LatencyStats, MetricsStore } from './types';
+export { createMemoryMetricsStore } from './memory';
+
+let store: MetricsStore | null = null;
+
+// Store chosen by METRICS_STORE; only "memory" ships today, holding the last METRICS_MAX_RECORDS requests
+export function getMetricsStore(): MetricsStore {
+  if (!store) {
+    const name = process.env.METRICS_STORE || 'memory';
+    if (name !== 'memory') {
+      throw new Error(`Unknown METRICS_STORE "${name}"; expected "memory"`);
+    }
+    const maxRecords = parseInt(process.env.METRICS_MAX_RECORDS || '', 10);
+    store = createMemoryMetricsStore({ maxRecords: maxRecords > 0 ? maxRecords : 5000 });
+  }
+  return store;
+}
+
+type TrackedRequest = Pick<GenerationMetric, 'kind' | 'requestId' | 'provider' | 'model' | 'theme' | 'layout' | 'mode' | 'ownKey'>;
+
+// Times one generate or refine request and counts its model calls; finish with succeed or fail exactly once
+export function trackGeneration(request: TrackedRequest, log: Logger) {
+  const startedAt = Date.now();
+  const usage = { modelCalls: 0, inputTokens: 0, outputTokens: 0 };
+
+  const finish = (details: Partial<GenerationMetric> & Pick<GenerationMetric, 'outcome'>) => {
+    const metric: GenerationMetric = {
+      ...request,
+      ...usage,
+      at: Date.now(),
+      latencyMs: Date.now() - startedAt,
+      parseFailures: 0,
+      validationFailures: 0,
+      typeCheckFailures: 0,
+      ...details
+    };
+    log.info('Generation finished', { metric });
+    getMetricsStore().record(metric).catch(error => log.error('Failed to record generation metric', { error }));
+  };
+
+  return {
+    // Pass as GenerationHooks.onUsage (alongside the quota charger)
+    onUsage(tokens: TokenUsage) {
+      usage.modelCalls++;
+      usage.inputTokens += tokens.inputTokens;
+      usage.outputTokens += tokens.outputTokens;
+    },
+
+    succeed(report?: GenerationReport, cache?: GeneratedApp['cache']) {
+      // A cached or shared answer's failures were already counted by the request that made the model calls
+      const reused = cache?.status === 'hit' || cache?.status === 'shared';
+      finish({
+        outcome: 'success',
+        path: report?.path,
+        fallbackReason: report?.fallbackReason,
+        cache: cache?.status,
+        parseFailures: reused ? 0 : report?.parseFailures || 0,
+        validationFailures: reused ? 0 : report?.validationFailures || 0,
+        typeCheckFailures: reused ? 0 : report?.fixAttempts || 0
+      });
+    },
+
+    fail(error: unknown) {
+      log.warn('Generation failed', { error });
+      finish({ outcome: 'error' });
+    }
+  };
+}
+
+// Aggregate of every request recorded in the last sinceMs
+export async function getGenerationStats(sinceMs: number): Promise<GenerationStats> {
+  const since = Date.now() - sinceMs;
+  return summarizeGenerations(await getMetricsStore().list(since), since);
+}
+
+export function summarizeGenerations(metrics: GenerationMetric[], since: number): GenerationStats {
+  const count = (values: (string | undefined)[]) => {
+    const counts: Record<string, number> = {};
+    values.forEach(value => {
+      if (value) {
+        counts[value] = (counts[value] || 0) + 1;
+      }
+    });
+    return counts;
+  };
+  const sum = (pick: (metric: GenerationMetric) => number) => metrics.reduce((total, metric) => total + pick(metric), 0);
+
+  const succeeded = metrics.filter(metric => metric.outcome === 'success');
+  const fallbacks = succeeded.filter(metric => metric.path === 'fallback').length;
+  const modelCalls = sum(metric => metric.modelCalls);
+  const parseFailures = sum(metric => metric.parseFailures);
+  // Generations are the requests that make a new app; refinements have no theme or layout of their own
+  const generations = metrics.filter(metric => metric.kind === 'generate');
+
+  return {
+    since: new Date(since).toISOString(),
+    requests: metrics.length,
+    byKind: count(metrics.map(metric => metric.kind)),
+    outcomes: count(metrics.map(metric => metric.outcome)),
+    paths: count(succeeded.map(metric => metric.path)),
+    fallbackRate: ratio(fallbacks, succeeded.length),
+    fallbackReasons: count(succeeded.map(metric => metric.fallbackReason)),
+    cache: count(metrics.map(metric => metric.cache)),
+    parseSuccessRate: ratio(modelCalls - parseFailures, modelCalls),
+    parseFailures,
+    validationFailures: sum(metric => metric.validationFailures),
+    typeCheckFailures: sum(metric => metric.typeCheckFailures),
+    modelCalls,
+    tokens: { input: sum(metric => metric.inputTokens), output: sum(metric => metric.outputTokens) },
+    latencyMs: latencyStats(metrics.filter(metric => metric.cache !== 'hit').map(metric => metric.latencyMs)),
+    themes: count(generations.map(metric => metric.theme)),
+    layouts: count(generations.map(metric => metric.layout)),
+    modes: count(generations.map(metric => metric.mode))
+  };
+}
+
+function latencyStats(values: number[]): LatencyStats {
+  if (values.length === 0) {
+    return { average: 0, p50: 0, p95: 0, max: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return {
+    average: Math.round(sorted.reduce((total, value) => total + value, 0) / sorted.length),
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    max: sorted[sorted.length - 1]
+  };
+}
+
+function ratio(part: number, whole: number) {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+}
@@ -0,0 +1,21 @@
+// Memory Store - Per-process ring of recent generation metrics
+import type { GenerationMetric, MetricsStore } from './types';
+
+export function createMemoryMetricsStore({ maxRecords }: { maxRecords: number }): MetricsStore {
+  const records: GenerationMetric[] = [];
+
+  return {
+    name: 'memory',
+
+    async record(metric) {
+      records.push(metric);
+      if (records.length > maxRecords) {
+        records.splice(0, records.length - maxRecords);
+      }
+    },
+
+    async list(since) {
+      return records.filter(metric => metric.at >= since);
+    }
+  };
+}
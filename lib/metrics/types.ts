@@ -0,0 +1,70 @@
+// Metrics Types - One record per generate or refine request, the stats built from them, and the store contract
+import type { GenerationPath, GenerationReport, GeneratedApp } from '../generation';
+
+export type GenerationKind = 'generate' | 'refine';
+
+export interface GenerationMetric {
+  kind: GenerationKind;
+  requestId: string;
+  // When the request finished (ms since epoch)
+  at: number;
+  provider: string;
+  model: string;
+  theme?: string;
+  layout?: string;
+  mode?: string;
+  // The caller paid with their own Anthropic key
+  ownKey: boolean;
+  // error: the request threw instead of returning an app
+  outcome: 'success' | 'error';
+  path?: GenerationPath;
+  fallbackReason?: GenerationReport['fallbackReason'];
+  cache?: NonNullable<GeneratedApp['cache']>['status'];
+  latencyMs: number;
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Model answers that were not readable JSON, schema-invalid, or did not compile
+  parseFailures: number;
+  validationFailures: number;
+  typeCheckFailures: number;
+}
+
+export interface LatencyStats {
+  average: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+// Aggregate of the metrics in a time window, as returned by /api/admin/stats
+export interface GenerationStats {
+  since: string;
+  requests: number;
+  byKind: Record<string, number>;
+  outcomes: Record<string, number>;
+  paths: Record<string, number>;
+  // Share of successful requests answered by the fallback template
+  fallbackRate: number;
+  fallbackReasons: Record<string, number>;
+  cache: Record<string, number>;
+  // Share of model answers that parsed as JSON
+  parseSuccessRate: number;
+  parseFailures: number;
+  validationFailures: number;
+  typeCheckFailures: number;
+  modelCalls: number;
+  tokens: { input: number; output: number };
+  // Requests that reached the model; cache hits are left out
+  latencyMs: LatencyStats;
+  themes: Record<string, number>;
+  layouts: Record<string, number>;
+  modes: Record<string, number>;
+}
+
+export interface MetricsStore {
+  name: string;
+  record(metric: GenerationMetric): Promise<void>;
+  // Metrics that finished at or after since, oldest first
+  list(since: number): Promise<GenerationMetric[]>;
+}
@@ -0,0 +1,173 @@
+// Moderation - Screens user ideas before they reach the prompt and scans generated code before it reaches the client
+
+export type FindingSeverity = 'block' | 'warn';
+
+export interface ModerationFinding {
+  // 'input' is the idea or change request, 'code' is a generated file
+  source: 'input' | 'code';
+  rule: string;
+  severity: FindingSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+  excerpt?: string;
+}
+
+export interface InputModeration {
+  // allow: unchanged, sanitize: safe after the edits in text, reject: must not be sent to the model
+  action: 'allow' | 'sanitize' | 'reject';
+  text: string;
+  findings: ModerationFinding[];
+}
+
+interface PatternRule {
+  rule: string;
+  pattern: RegExp;
+  message: string;
+}
+
+export const MAX_INPUT_LENGTH = 1000;
+
+// Requests for harmful apps are refused outright
+const ABUSE_RULES: PatternRule[] = [
+  { rule: 'malware', pattern: /\b(?:keylogger|ransomware|botnet|credential (?:stealer|harvest\w*)|steal(?:s|ing)? (?:\w+ )?(?:passwords|credentials|cookies|credit cards?))\b/i, message: 'Apps that steal data or spread malware are not allowed' },
+  { rule: 'phishing', pattern: /\bphishing\b|\bfake (?:bank|paypal|login|sign[- ]?in) (?:page|site|form)\b/i, message: 'Phishing and impersonation apps are not allowed' },
+  { rule: 'csam', pattern: /\b(?:child (?:porn\w*|sexual\w*)|csam)\b/i, message: 'Sexual content involving minors is not allowed' },
+  { rule: 'weapons', pattern: /\b(?:build|make|assemble) (?:a |an )?(?:pipe )?(?:bomb|explosive)s?\b/i, message: 'Instructions for weapons are not allowed' },
+  { rule: 'doxxing', pattern: /\bdox+(?:ing|x?ing)?\b/i, message: 'Apps that expose private information about people are not allowed' }
+];
+
+// Attempts to override the generation instructions or the JSON response contract
+const INJECTION_RULES: PatternRule[] = [
+  { rule: 'instruction-override', pattern: /\b(?:ignore|disregard|forget|override) (?:all |any )?(?:of )?(?:the |your )?(?:previous|prior|above|earlier|system|original) (?:instructions?|prompts?|rules|requirements)\b/i, message: 'Tries to override the generation instructions' },
+  { rule: 'prompt-leak', pattern: /\b(?:reveal|print|show|repeat|output) (?:me )?(?:your |the )?(?:system prompt|hidden instructions|initial prompt)\b/i, message: 'Tries to extract the prompt' },
+  { rule: 'role-tag', pattern: /<\/?(?:system|assistant|user|instructions?)>|^\s*(?:system|assistant)\s*:/im, message: 'Contains chat role markers' },
+  { rule: 'format-escape', pattern: /\b(?:respond|reply|answer|return|output)(?: only)? (?:in|with|as) (?:markdown|plain text|prose|html|yaml|xml)\b|\b(?:do not|don't) (?:return|respond with|use) json\b/i, message: 'Tries to change the JSON response format' }
+];
+
+const PROFANITY = /\b(?:fuck\w*|shit\w*|bitch\w*|cunt\w*|asshole\w*|motherfuck\w*)\b/gi;
+
+// Screen an idea or change request; sanitizing keeps it from breaking out of the quoted prompt string
+export function moderateInput(input: string): InputModeration {
+  const findings: ModerationFinding[] = [];
+  const raw = typeof input === 'string' ? input : '';
+
+  for (const { rule, pattern, message } of [...ABUSE_RULES, ...INJECTION_RULES]) {
+    const match = raw.match(pattern);
+    if (match) {
+      findings.push({ source: 'input', rule, severity: 'block', message, excerpt: match[0] });
+    }
+  }
+  if (findings.length > 0) {
+    return { action: 'reject', text: raw, findings };
+  }
+
+  const sanitizeSteps: { rule: string; pattern: RegExp; replace: string | ((match: string) => string); message: string }[] = [
+    { rule: 'control-characters', pattern: /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, replace: '', message: 'Removed control characters' },
+    { rule: 'code-fence', pattern: /```+/g, replace: '', message: 'Removed code fences' },
+    { rule: 'quote-escape', pattern: /["“”]/g, replace: "'", message: 'Replaced double quotes, which would end the quoted idea in the prompt' },
+    { rule: 'json-braces', pattern: /[{}]/g, replace: (brace) => (brace === '{' ? '(' : ')'), message: 'Replaced braces that could be read as JSON' },
+    { rule: 'profanity', pattern: PROFANITY, replace: (word) => word[0] + '*'.repeat(word.length - 1), message: 'Masked profanity' }
+  ];
+
+  let text = raw;
+  for (const { rule, pattern, replace, message } of sanitizeSteps) {
+    const next = typeof replace === 'string' ? text.replace(pattern, replace) : text.replace(pattern, replace);
+    if (next !== text) {
+      findings.push({ source: 'input', rule, severity: 'warn', message });
+      text = next;
+    }
+  }
+
+  text = text.replace(/\n{3,}/g, '\n\n').trim();
+  if (text.length > MAX_INPUT_LENGTH) {
+    text = text.slice(0, MAX_INPUT_LENGTH);
+    findings.push({ source: 'input', rule: 'length', severity: 'warn', message: `Shortened to ${MAX_INPUT_LENGTH} characters` });
+  }
+
+  return { action: text === raw ? 'allow' : 'sanitize', text, findings };
+}
+
+// Code rules; blocking ones are sent back to the model as validation errors
+const CODE_RULES: (PatternRule & { severity: FindingSeverity })[] = [
+  { rule: 'eval', severity: 'block', pattern: /\beval\s*\(/g, message: 'Uses eval()' },
+  { rule: 'function-constructor', severity: 'block', pattern: /\bnew\s+Function\s*\(/g, message: 'Builds code with new Function()' },
+  { rule: 'string-timer', severity: 'block', pattern: /\bset(?:Timeout|Interval)\s*\(\s*['"`]/g, message: 'Passes a code string to a timer' },
+  { rule: 'remote-script', severity: 'block', pattern: /createElement\s*\(\s*['"`]script['"`]\s*\)|<script\b[^>]*\bsrc\s*=|\bimport\s*\(\s*['"`]https?:/gi, message: 'Loads a remote script' },
+  { rule: 'document-write', severity: 'block', pattern: /\bdocument\.write(?:ln)?\s*\(/g, message: 'Writes raw HTML with document.write()' },
+  { rule: 'raw-html', severity: 'warn', pattern: /\bdangerouslySetInnerHTML\b|\.(?:inner|outer)HTML\s*=/g, message: 'Injects raw HTML' },
+  { rule: 'external-redirect', severity: 'warn', pattern: /\b(?:window\.)?location(?:\.href)?\s*=\s*['"`]https?:/g, message: 'Redirects to an external site' }
+];
+
+// fetch('...'), axios.get('...'), new WebSocket('...'), sendBeacon('...'), xhr.open('GET', '...'), new EventSource('...')
+const NETWORK_CALL = /\b(?:fetch|axios(?:\.(?:get|post|put|patch|delete|request))?|sendBeacon|new\s+(?:WebSocket|EventSource))\s*\(\s*([^,)]*)|\.open\s*\(\s*['"`][A-Z]+['"`]\s*,\s*([^,)]*)/g;
+const COOKIE_ACCESS = /\bdocument\.cookie\b/g;
+const IMAGE_BEACON = /\bnew\s+Image\s*\(\s*\)/;
+
+// Hosts generated apps may call, from MODERATION_ALLOWED_HOSTS (comma separated)
+function allowedHosts() {
+  return (process.env.MODERATION_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+}
+
+// Scan generated source files (keys relative to src/) for dangerous patterns
+export function scanCode(code: Record<string, string>): ModerationFinding[] {
+  const findings: ModerationFinding[] = [];
+  const hosts = allowedHosts();
+
+  for (const [file, source] of Object.entries(code || {})) {
+    if (typeof source !== 'string' || !/\.(tsx?|jsx?)$/.test(file)) {
+      continue;
+    }
+    const lineAt = (index: number) => source.slice(0, index).split('\n').length;
+    const excerptAt = (index: number) => source.slice(index).split('\n')[0].trim().slice(0, 120);
+    const add = (finding: Omit<ModerationFinding, 'source' | 'file' | 'line' | 'excerpt'>, index: number) => {
+      findings.push({ source: 'code', file, line: lineAt(index), excerpt: excerptAt(index), ...finding });
+    };
+
+    for (const { rule, severity, pattern, message } of CODE_RULES) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(source))) {
+        add({ rule, severity, message }, match.index);
+      }
+    }
+
+    let sendsData = IMAGE_BEACON.test(source);
+    NETWORK_CALL.lastIndex = 0;
+    let call: RegExpExecArray | null;
+    while ((call = NETWORK_CALL.exec(source))) {
+      sendsData = true;
+      const target = (call[1] || call[2] || '').trim();
+      const literal = target.match(/^['"`](https?:)?\/\/([^/'"`:?#]+)/i);
+      if (literal) {
+        const host = literal[2].toLowerCase();
+        if (!hosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`))) {
+          add({ rule: 'external-request', severity: 'warn', message: `Sends requests to ${host}` }, call.index);
+        }
+      } else if (target && !/^['"`][./]/.test(target)) {
+        add({ rule: 'dynamic-request', severity: 'warn', message: 'Sends requests to a URL built at runtime' }, call.index);
+      }
+    }
+
+    // Reading cookies is only dangerous when the same file can send them somewhere
+    COOKIE_ACCESS.lastIndex = 0;
+    let cookie: RegExpExecArray | null;
+    while ((cookie = COOKIE_ACCESS.exec(source))) {
+      add(sendsData
+        ? { rule: 'cookie-exfiltration', severity: 'block', message: 'Reads document.cookie in a file that makes network requests' }
+        : { rule: 'cookie-access', severity: 'warn', message: 'Reads document.cookie' }, cookie.index);
+    }
+  }
+
+  return findings;
+}
+
+export function blockingFindings(findings: ModerationFinding[]) {
+  return findings.filter(finding => finding.severity === 'block');
+}
+
+// One-line description of a finding for repair prompts and error messages
+export function describeFinding({ message, file, line, excerpt }: ModerationFinding) {
+  const location = file ? ` in ${file}${line ? `:${line}` : ''}` : '';
+  return `${message}${location}${excerpt ? ` (${excerpt})` : ''}`;
+}
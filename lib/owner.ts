@@ -0,0 +1,49 @@
+// Owner Sessions - Anonymous owner identity kept in an HTTP-only cookie, so saves can be edited later
+import { createHash, randomBytes } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { StoredApp } from './storage/types';
+
+const OWNER_COOKIE = 'vibecherry_owner';
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+type CookieRequest = IncomingMessage & { cookies: Partial<{ [key: string]: string }> };
+
+// Apps store a hash of the cookie secret, so an ownerId that leaks cannot be replayed as a session
+function ownerIdFor(secret: string) {
+  return createHash('sha256').update(secret).digest('hex').slice(0, 32);
+}
+
+export function getOwnerId(req: CookieRequest): string | null {
+  const secret = req.cookies[OWNER_COOKIE];
+  return secret && /^[a-f0-9]{64}$/.test(secret) ? ownerIdFor(secret) : null;
+}
+
+// Current owner id, starting a session for first-time savers
+export function ensureOwnerId(req: CookieRequest, res: ServerResponse): string {
+  const existing = getOwnerId(req);
+  if (existing) {
+    return existing;
+  }
+
+  const secret = randomBytes(32).toString('hex');
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  res.setHeader('Set-Cookie', `${OWNER_COOKIE}=${secret}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${COOKIE_MAX_AGE_SECONDS}${secure}`);
+  return ownerIdFor(secret);
+}
+
+// Apps saved before ownership existed have no owner and stay read-only
+export function isOwner(req: CookieRequest, app: Pick<StoredApp, 'ownerId'>) {
+  const ownerId = getOwnerId(req);
+  return Boolean(ownerId && app.ownerId && ownerId === app.ownerId);
+}
+
+// Unpublished apps are only visible to their owner
+export function canView(req: CookieRequest, app: StoredApp) {
+  return app.published !== false || isOwner(req, app);
+}
+
+// The record as sent to browsers, without the owner hash
+export function toPublicApp(app: StoredApp): StoredApp {
+  const { ownerId, ...publicApp } = app;
+  return publicApp;
+}
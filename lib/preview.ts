@@ -0,0 +1,293 @@
+// Preview - Transpiles generated files and builds the sandboxed iframe document that runs them
+import { transform } from 'sucrase';
+
+export const PREVIEW_MESSAGE_SOURCE = 'vibe-preview';
+
+export type PreviewLogLevel = 'log' | 'info' | 'warn' | 'error';
+
+// Message posted from the sandbox to the parent window
+export interface PreviewMessage {
+  source: typeof PREVIEW_MESSAGE_SOURCE;
+  nonce: string;
+  type: 'console' | 'error' | 'ready';
+  level?: PreviewLogLevel;
+  message?: string;
+}
+
+export interface CompileError {
+  file: string;
+  message: string;
+}
+
+export interface PreviewBuild {
+  html: string;
+  entry: string | null;
+  errors: CompileError[];
+}
+
+// Runtime libraries loaded inside the sandbox
+const RUNTIME_SCRIPTS = [
+  'https://unpkg.com/react@18/umd/react.development.js',
+  'https://unpkg.com/react-dom@18/umd/react-dom.development.js',
+  'https://cdn.tailwindcss.com'
+];
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const ENTRY_CANDIDATES = ['src/App.tsx', 'App.tsx', 'src/App.jsx', 'App.jsx'];
+
+// Pick the module that exports the root App component
+export function findEntryFile(files: Record<string, string>) {
+  const entry = ENTRY_CANDIDATES.find(path => typeof files[path] === 'string');
+  if (entry) {
+    return entry;
+  }
+  return Object.keys(files).find(path => path.endsWith('.tsx')) || null;
+}
+
+// Transpile every script file to CommonJS and embed the result in a self-contained HTML document
+export function buildPreviewDocument(files: Record<string, string>, nonce: string): PreviewBuild {
+  const { entry, modules, styles, errors } = transpileFiles(files);
+
+  return {
+    html: renderDocument({ entry, modules, styles, nonce }),
+    entry,
+    errors
+  };
+}
+
+// Script files as CommonJS module sources and stylesheets as-is, ready for moduleRuntime
+export function transpileFiles(files: Record<string, string>) {
+  const entry = findEntryFile(files);
+  const errors: CompileError[] = [];
+  const modules: Record<string, string> = {};
+  const styles: Record<string, string> = {};
+
+  for (const [path, source] of Object.entries(files || {})) {
+    if (typeof source !== 'string') {
+      continue;
+    }
+    if (path.endsWith('.css')) {
+      styles[path] = source;
+      continue;
+    }
+    if (!SCRIPT_EXTENSIONS.some(ext => path.endsWith(ext)) || path.endsWith('.d.ts')) {
+      continue;
+    }
+
+    try {
+      modules[path] = transform(source, {
+        transforms: ['typescript', 'jsx', 'imports'],
+        jsxRuntime: 'automatic',
+        production: true,
+        filePath: path
+      }).code;
+    } catch (error: any) {
+      errors.push({ file: path, message: error.message });
+    }
+  }
+
+  if (!entry) {
+    errors.push({ file: 'App.tsx', message: 'No App component found in generated files' });
+  }
+
+  return { entry, modules, styles, errors };
+}
+
+// Serialize a value for safe embedding inside an inline <script>
+function embedJson(value: unknown) {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+function renderDocument({ entry, modules, styles, nonce }: {
+  entry: string | null;
+  modules: Record<string, string>;
+  styles: Record<string, string>;
+  nonce: string;
+}) {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<script>${consoleBridge(nonce)}</script>
+${RUNTIME_SCRIPTS.map(src => `<script src="${src}" crossorigin></script>`).join('\n')}
+</head>
+<body>
+<div id="root"></div>
+<script>${moduleRuntime(entry, modules, styles)}</script>
+</body>
+</html>`;
+}
+
+// Forwards console output and uncaught errors to the parent window
+function consoleBridge(nonce: string) {
+  return `(function () {
+  var NONCE = ${embedJson(nonce)};
+  function format(value) {
+    if (value instanceof Error) return value.stack || value.message;
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  }
+  function send(type, level, message) {
+    parent.postMessage({ source: ${embedJson(PREVIEW_MESSAGE_SOURCE)}, nonce: NONCE, type: type, level: level, message: message }, '*');
+  }
+  window.__vibeSend = send;
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      var args = Array.prototype.slice.call(arguments);
+      send('console', level, args.map(format).join(' '));
+      original.apply(console, args);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    send('error', 'error', event.error ? format(event.error) : event.message);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    send('error', 'error', 'Unhandled promise rejection: ' + format(event.reason));
+  });
+  // Opaque-origin sandboxes throw on storage access; give apps an in-memory stand-in
+  ['localStorage', 'sessionStorage'].forEach(function (name) {
+    try { window[name].getItem('__vibe'); } catch (e) {
+      var data = {};
+      var storage = {
+        getItem: function (k) { return Object.prototype.hasOwnProperty.call(data, k) ? data[k] : null; },
+        setItem: function (k, v) { data[k] = String(v); },
+        removeItem: function (k) { delete data[k]; },
+        clear: function () { data = {}; },
+        key: function (i) { return Object.keys(data)[i] || null; },
+        get length() { return Object.keys(data).length; }
+      };
+      try { Object.defineProperty(window, name, { value: storage, configurable: true }); } catch (ignored) {}
+    }
+  });
+})();`;
+}
+
+// Minimal CommonJS loader resolving relative imports between generated files; expects React and ReactDOM globals
+export function moduleRuntime(entry: string | null, modules: Record<string, string>, styles: Record<string, string>) {
+  return `(function () {
+  // Outside the preview sandbox there is no parent to report to, so errors go to the console
+  var send = window.__vibeSend || function (type, level, message) {
+    if (type === 'error') console.error(message);
+  };
+  var sources = ${embedJson(modules)};
+  var styles = ${embedJson(styles)};
+  var cache = {};
+  var injectedStyles = {};
+  var EXTENSIONS = ['', '.tsx', '.ts', '.jsx', '.js', '.css', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+
+  function jsx(type, props, key) {
+    return React.createElement(type, key === undefined ? props : Object.assign({}, props, { key: key }));
+  }
+  var builtins = {
+    'react': React,
+    'react-dom': ReactDOM,
+    'react-dom/client': ReactDOM,
+    'react/jsx-runtime': { jsx: jsx, jsxs: jsx, Fragment: React.Fragment },
+    'react/jsx-dev-runtime': { jsxDEV: jsx, Fragment: React.Fragment }
+  };
+  // Icon libraries render as neutral placeholders so layouts still hold together
+  var iconStub = new Proxy({}, {
+    get: function (_, name) {
+      if (name === '__esModule') return true;
+      return function Icon(props) {
+        return React.createElement('span', { className: (props && props.className) || 'inline-block w-4 h-4', 'aria-hidden': true, 'data-icon': String(name) });
+      };
+    }
+  });
+
+  function normalize(path) {
+    var parts = [];
+    path.split('/').forEach(function (part) {
+      if (part === '..') parts.pop();
+      else if (part && part !== '.') parts.push(part);
+    });
+    return parts.join('/');
+  }
+
+  function resolve(specifier, from) {
+    var dir = from.split('/').slice(0, -1).join('/');
+    var base = normalize((dir ? dir + '/' : '') + specifier);
+    for (var i = 0; i < EXTENSIONS.length; i++) {
+      var candidate = base + EXTENSIONS[i];
+      if (sources.hasOwnProperty(candidate) || styles.hasOwnProperty(candidate)) return candidate;
+    }
+    return null;
+  }
+
+  function load(path) {
+    if (styles.hasOwnProperty(path)) {
+      if (!injectedStyles[path]) {
+        var style = document.createElement('style');
+        style.setAttribute('data-file', path);
+        style.textContent = styles[path];
+        document.head.appendChild(style);
+        injectedStyles[path] = true;
+      }
+      return {};
+    }
+    if (cache[path]) return cache[path].exports;
+    var module = { exports: {} };
+    cache[path] = module;
+    var factory = new Function('require', 'module', 'exports', sources[path] + '\\n//# sourceURL=' + path);
+    factory(function (specifier) { return requireFrom(specifier, path); }, module, module.exports);
+    return module.exports;
+  }
+
+  function requireFrom(specifier, from) {
+    if (builtins.hasOwnProperty(specifier)) return builtins[specifier];
+    if (specifier === 'lucide-react' || specifier === 'react-icons' || specifier.indexOf('@heroicons/') === 0) return iconStub;
+    if (specifier.charAt(0) !== '.' && specifier.charAt(0) !== '/') {
+      throw new Error('Module "' + specifier + '" is not available in the preview sandbox');
+    }
+    var resolved = resolve(specifier, from);
+    if (!resolved) throw new Error('Cannot find module "' + specifier + '" imported from ' + from);
+    return load(resolved);
+  }
+
+  var ErrorBoundary = (function () {
+    function Boundary(props) {
+      React.Component.call(this, props);
+      this.state = { error: null };
+    }
+    Boundary.prototype = Object.create(React.Component.prototype);
+    Boundary.prototype.constructor = Boundary;
+    Boundary.getDerivedStateFromError = function (error) { return { error: error }; };
+    Boundary.prototype.componentDidCatch = function (error) {
+      send('error', 'error', (error && (error.stack || error.message)) || String(error));
+    };
+    Boundary.prototype.render = function () {
+      if (this.state.error) {
+        return React.createElement('pre', { style: { color: '#b91c1c', padding: '1rem', whiteSpace: 'pre-wrap', fontSize: '12px' } },
+          'Runtime error: ' + (this.state.error.message || String(this.state.error)));
+      }
+      return this.props.children;
+    };
+    return Boundary;
+  })();
+
+  try {
+    var entry = ${embedJson(entry)};
+    if (!entry) throw new Error('No App component found in generated files');
+    // Tailwind's browser build takes the project's theme colors, as the exported build does
+    if (window.tailwind && sources.hasOwnProperty('tailwind.config.js')) {
+      var tailwindConfig = load('tailwind.config.js');
+      window.tailwind.config = tailwindConfig.default || tailwindConfig;
+    }
+    Object.keys(styles).forEach(function (path) { load(path); });
+    var exported = load(entry);
+    var App = exported.default || exported.App;
+    if (typeof App !== 'function') throw new Error(entry + ' does not export a default App component');
+    ReactDOM.createRoot(document.getElementById('root')).render(
+      React.createElement(ErrorBoundary, null, React.createElement(App))
+    );
+    send('ready', 'info', 'Mounted ' + entry);
+  } catch (error) {
+    send('error', 'error', (error && (error.stack || error.message)) || String(error));
+  }
+})();`;
+}
@@ -0,0 +1,72 @@
+// Anthropic Provider - Streams completions from Claude through the Anthropic SDK
+import { logger } from '../logger';
+import { CompletionRequest, LLMProvider, estimateTokens } from './types';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+// Create a provider bound to one API key; defaults come from ANTHROPIC_API_KEY and ANTHROPIC_MODEL
+export function createAnthropicProvider(options: AnthropicProviderOptions = {}): LLMProvider {
+  const apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY;
+  const model = options.model || process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL;
+
+  return {
+    id: 'anthropic',
+    model,
+    configured: Boolean(apiKey),
+    complete: (request) => streamCompletion(apiKey, model, request)
+  };
+}
+
+async function streamCompletion(apiKey: string, model: string, { messages, maxTokens, timeoutMs, onToken, onUsage }: CompletionRequest) {
+  const { default: Anthropic } = await import('@anthropic-ai/sdk');
+  const anthropic = new Anthropic({ apiKey });
+
+  const startTime = Date.now();
+  const stream = anthropic.messages.stream({
+    model,
+    max_tokens: maxTokens,
+    messages
+  });
+  // Streamed text stands in for output usage if the call is aborted before the final message
+  let streamedText = '';
+  stream.on('text', (text) => {
+    streamedText += text;
+    onToken?.(text);
+  });
+
+  let timeout: ReturnType<typeof setTimeout>;
+  let message;
+  try {
+    message = await Promise.race([
+      stream.finalMessage(),
+      new Promise<never>((_, reject) => {
+        timeout = setTimeout(() => {
+          stream.abort();
+          reject(new Error('API timeout'));
+        }, timeoutMs);
+      })
+    ]);
+  } finally {
+    clearTimeout(timeout);
+    onUsage?.(message
+      ? { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens }
+      : { inputTokens: estimateTokens(messages.map(m => m.content).join('')), outputTokens: estimateTokens(streamedText) });
+  }
+
+  logger.debug('Model call completed', { model, durationMs: Date.now() - startTime });
+
+  const textContent = message.content.find(
+    (block): block is any => block.type === 'text'
+  );
+
+  if (!textContent) {
+    throw new Error('No response from Claude');
+  }
+
+  return textContent.text;
+}
@@ -0,0 +1,249 @@
+// Mock Fixtures - Deterministic AppData and refinement answers for the offline provider
+import type { AppData } from '../app-generator';
+import type { GenerateRequest, RefineRequest } from '../generation';
+import { resolveTheme } from '../themes';
+
+const COLUMNS: Record<string, string> = {
+  single: 'md:grid-cols-1',
+  dual: 'md:grid-cols-2',
+  triple: 'md:grid-cols-3',
+  quad: 'md:grid-cols-4'
+};
+
+// Fixture app for a generate request; the same request always yields the same app
+export function mockAppData({ idea, theme, layout, mode, customTheme }: GenerateRequest): AppData {
+  // Fixtures are written against Tailwind's palette, so custom themes get a stock accent
+  const accent = resolveTheme({ theme, customTheme }).family || 'indigo';
+  const columns = COLUMNS[layout] || COLUMNS.triple;
+  const words = idea.trim().split(/\s+/).filter(Boolean).slice(0, 4).join(' ');
+  const title = `Mock ${words || 'Vibe'} App`.slice(0, 100);
+  const config = { theme, layout, features: ['interactive', 'offline-fixture'] };
+
+  if (mode === 'multi') {
+    return {
+      title,
+      description: `Offline multi-page fixture for "${idea}"`.slice(0, 1000),
+      code: {
+        'App.tsx': multiPageApp(title, accent),
+        'components.tsx': multiPageComponents(accent, columns),
+        'styles.css': 'body {\n  -webkit-font-smoothing: antialiased;\n}\n',
+        'pages/Home.tsx': homePage(idea),
+        'pages/Items.tsx': itemsPage()
+      },
+      pages: [
+        { name: 'Home', path: '/', file: 'pages/Home.tsx' },
+        { name: 'Items', path: '/items', file: 'pages/Items.tsx' }
+      ],
+      config: { ...config, features: [...config.features, 'multi-page'] }
+    };
+  }
+
+  return {
+    title,
+    description: `Offline fixture for "${idea}"`.slice(0, 1000),
+    code: { 'App.tsx': singlePageApp(title, idea, accent, columns) },
+    config
+  };
+}
+
+// Fixture refinement: records the instruction at the top of App.tsx so the change shows up in diffs
+export function mockRefinement({ app, instruction }: RefineRequest) {
+  const current = app.files?.['src/App.tsx'] ?? app.files?.['App.tsx'] ?? app.code?.['App.tsx'] ?? '';
+  const note = `// Mock refinement: ${instruction.replace(/\s+/g, ' ').trim()}`;
+
+  return {
+    summary: `Mock provider recorded "${instruction}" in App.tsx`,
+    code: { 'App.tsx': `${note}\n${current}` }
+  };
+}
+
+function singlePageApp(title: string, idea: string, accent: string, columns: string) {
+  return `import React, { useState } from 'react';
+
+const IDEA = ${JSON.stringify(idea)};
+
+export default function App() {
+  const [items, setItems] = useState([
+    { id: 1, name: 'First item', done: false },
+    { id: 2, name: 'Second item', done: true }
+  ]);
+  const [draft, setDraft] = useState('');
+
+  const addItem = () => {
+    if (!draft.trim()) return;
+    setItems([...items, { id: items.length + 1, name: draft.trim(), done: false }]);
+    setDraft('');
+  };
+
+  const toggleItem = (id: number) => {
+    setItems(items.map(item => (item.id === id ? { ...item, done: !item.done } : item)));
+  };
+
+  return (
+    <div className="min-h-screen bg-${accent}-50 p-8">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <header className="text-center">
+          <h1 className="text-4xl font-bold text-${accent}-900">${escapeJsxText(title)}</h1>
+          <p className="text-${accent}-700 mt-2">{IDEA}</p>
+        </header>
+        <div className="grid grid-cols-1 ${columns} gap-6">
+          <div className="bg-white rounded-xl p-6 shadow">
+            <h2 className="font-semibold text-${accent}-900 mb-3">Add</h2>
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addItem()}
+              placeholder="New item..."
+              className="w-full border rounded-lg px-3 py-2 mb-3"
+            />
+            <button onClick={addItem} className="w-full bg-${accent}-600 text-white rounded-lg px-4 py-2">
+              Add Item
+            </button>
+          </div>
+          <div className="bg-white rounded-xl p-6 shadow">
+            <h2 className="font-semibold text-${accent}-900 mb-3">Items</h2>
+            <ul className="space-y-2">
+              {items.map(item => (
+                <li key={item.id}>
+                  <button onClick={() => toggleItem(item.id)} className={item.done ? 'line-through text-gray-400' : 'text-gray-800'}>
+                    {item.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="bg-white rounded-xl p-6 shadow">
+            <h2 className="font-semibold text-${accent}-900 mb-3">Stats</h2>
+            <p className="text-gray-700">{items.filter(item => item.done).length} of {items.length} done</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}`;
+}
+
+function multiPageApp(title: string, accent: string) {
+  return `import React from 'react';
+import './styles.css';
+import { Router, Link } from './router';
+import { ItemsProvider } from './components';
+import Home from './pages/Home';
+import Items from './pages/Items';
+
+export default function App() {
+  return (
+    <ItemsProvider>
+      <div className="min-h-screen bg-${accent}-50">
+        <nav className="bg-white shadow px-8 py-4 flex items-center space-x-6">
+          <span className="font-bold text-${accent}-900">${escapeJsxText(title)}</span>
+          <Link to="/" className="text-${accent}-700" activeClassName="font-semibold underline">Home</Link>
+          <Link to="/items" className="text-${accent}-700" activeClassName="font-semibold underline">Items</Link>
+        </nav>
+        <main className="max-w-5xl mx-auto p-8">
+          <Router routes={[{ path: '/', component: Home }, { path: '/items', component: Items }]} />
+        </main>
+      </div>
+    </ItemsProvider>
+  );
+}`;
+}
+
+function multiPageComponents(accent: string, columns: string) {
+  return `import React, { createContext, useContext, useState } from 'react';
+
+const ItemsContext = createContext(null);
+
+export function ItemsProvider({ children }) {
+  const [items, setItems] = useState(['First item', 'Second item']);
+  const addItem = (name: string) => setItems([...items, name]);
+  return <ItemsContext.Provider value={{ items, addItem }}>{children}</ItemsContext.Provider>;
+}
+
+export function useItems() {
+  return useContext(ItemsContext);
+}
+
+export function VibeButton({ children, onClick = undefined, variant = 'primary', type = 'button' as 'button' | 'submit' | 'reset', className = '' }) {
+  const colors = variant === 'primary' ? 'bg-${accent}-600 text-white' : 'border border-${accent}-600 text-${accent}-700';
+  return (
+    <button type={type} onClick={onClick} className={colors + ' px-4 py-2 rounded-lg font-semibold ' + className}>
+      {children}
+    </button>
+  );
+}
+
+export function VibeCard({ children, title = undefined, className = '' }) {
+  return (
+    <div className={'bg-white rounded-xl p-6 shadow ' + className}>
+      {title && <h2 className="font-semibold text-${accent}-900 mb-3">{title}</h2>}
+      {children}
+    </div>
+  );
+}
+
+export function VibeGrid({ children, columns = 3 }) {
+  return <div className={'grid grid-cols-1 gap-6 ' + (columns === 3 ? '${columns}' : 'md:grid-cols-' + columns)}>{children}</div>;
+}`;
+}
+
+function homePage(idea: string) {
+  return `import React from 'react';
+import { VibeButton, VibeCard, VibeGrid, useItems } from '../components';
+import { navigate } from '../router';
+
+export default function Home() {
+  const { items } = useItems();
+  return (
+    <VibeGrid>
+      <VibeCard title="Welcome">
+        <p className="text-gray-700 mb-4">{${JSON.stringify(idea)}}</p>
+        <VibeButton onClick={() => navigate('/items')}>Browse items</VibeButton>
+      </VibeCard>
+      <VibeCard title="Overview">
+        <p className="text-gray-700">{items.length} items saved</p>
+      </VibeCard>
+    </VibeGrid>
+  );
+}`;
+}
+
+function itemsPage() {
+  return `import React, { useState } from 'react';
+import { VibeButton, VibeCard, VibeGrid, useItems } from '../components';
+
+export default function Items() {
+  const { items, addItem } = useItems();
+  const [draft, setDraft] = useState('');
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    addItem(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <VibeGrid columns={2}>
+      <VibeCard title="Add item">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="New item..."
+          className="w-full border rounded-lg px-3 py-2 mb-3"
+        />
+        <VibeButton onClick={submit}>Add</VibeButton>
+      </VibeCard>
+      <VibeCard title="All items">
+        <ul className="space-y-2 text-gray-700">
+          {items.map((item, i) => <li key={i}>{item}</li>)}
+        </ul>
+      </VibeCard>
+    </VibeGrid>
+  );
+}`;
+}
+
+// Titles land in JSX text, where braces and angle brackets would change the markup
+function escapeJsxText(text: string) {
+  return text.replace(/[{}<>]/g, '');
+}
@@ -0,0 +1,42 @@
+// LLM Providers - Single entry point for picking the model backend
+import type { IncomingHttpHeaders } from 'http';
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import type { LLMProvider } from './types';
+
+export type { ChatMessage, CompletionRequest, CompletionTask, LLMProvider, TokenUsage } from './types';
+export { estimateTokens } from './types';
+export { createAnthropicProvider } from './anthropic';
+export { createMockProvider } from './mock';
+
+// Provider selected by LLM_PROVIDER ("anthropic" by default, "mock" for offline fixtures)
+export function getProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'anthropic').trim().toLowerCase();
+
+  switch (name) {
+    case 'anthropic':
+      return createAnthropicProvider();
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"; expected "anthropic" or "mock"`);
+  }
+}
+
+// Header carrying a caller's own Anthropic key; it is used for that request only and never logged or stored
+export const USER_KEY_HEADER = 'x-anthropic-key';
+
+// The caller's key: undefined when none was sent, null when the header does not look like an Anthropic key
+export function readUserApiKey(headers: IncomingHttpHeaders): string | null | undefined {
+  const value = headers[USER_KEY_HEADER];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const key = (Array.isArray(value) ? value[0] : value).trim();
+  return /^sk-ant-[A-Za-z0-9_-]{20,200}$/.test(key) ? key : null;
+}
+
+// Provider for one request: a caller's own key gets its own Anthropic client, otherwise the configured provider
+export function getRequestProvider(userApiKey?: string): LLMProvider {
+  return userApiKey ? createAnthropicProvider({ apiKey: userApiKey }) : getProvider();
+}
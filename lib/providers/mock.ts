@@ -0,0 +1,34 @@
+// Mock Provider - Offline, deterministic answers for local development without an API key
+import { mockAppData, mockRefinement } from './fixtures';
+import { CompletionRequest, LLMProvider, estimateTokens } from './types';
+
+const CHUNK_SIZE = 64;
+// Small pause between chunks so the streaming UI behaves as it does against a real model
+const CHUNK_DELAY_MS = 5;
+
+export function createMockProvider(): LLMProvider {
+  return {
+    id: 'mock',
+    model: 'mock-fixtures',
+    configured: true,
+    complete: streamFixture
+  };
+}
+
+async function streamFixture({ task, messages, onToken, onUsage }: CompletionRequest) {
+  const answer = task.kind === 'generate' ? mockAppData(task.request) : mockRefinement(task.request);
+  const text = JSON.stringify(answer, null, 2);
+
+  if (onToken) {
+    for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+      onToken(text.slice(i, i + CHUNK_SIZE));
+      await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+    }
+  }
+
+  onUsage?.({
+    inputTokens: estimateTokens(messages.map(message => message.content).join('')),
+    outputTokens: estimateTokens(text)
+  });
+  return text;
+}
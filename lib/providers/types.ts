@@ -0,0 +1,41 @@
+// Provider Types - The contract every LLM backend implements for generation and refinement
+import type { GenerateRequest, RefineRequest } from '../generation';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// What the completion is for, so offline providers can answer without reading the prompt
+export type CompletionTask =
+  | { kind: 'generate'; request: GenerateRequest }
+  | { kind: 'refine'; request: RefineRequest };
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Rough token count for text a provider cannot measure (about four characters per token)
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export interface CompletionRequest {
+  task: CompletionTask;
+  messages: ChatMessage[];
+  maxTokens: number;
+  timeoutMs: number;
+  onToken?: (text: string) => void;
+  // Called once per completion, including ones that time out, with the tokens it consumed
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LLMProvider {
+  id: string;
+  model: string;
+  // False when the provider is missing credentials it needs
+  configured: boolean;
+  // Resolve with the full response text; reject with "API timeout" when timeoutMs runs out
+  complete(request: CompletionRequest): Promise<string>;
+}
@@ -0,0 +1,183 @@
+// Rate Limits - Per-client request windows and daily token quotas for the routes that spend the model key
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createMemoryStore } from './memory';
+import { logger } from '../logger';
+import { ensureOwnerId } from '../owner';
+import type { TokenUsage } from '../providers';
+import type { QuotaStatus, RateLimitStore } from './types';
+
+export type { QuotaStatus, RateLimitStore, RequestAllowance, TokenAllowance, WindowResult } from './types';
+export { createMemoryStore } from './memory';
+
+export interface RateLimitConfig {
+  // Requests allowed per client in any window; 0 turns the limit off
+  maxRequests: number;
+  windowMs: number;
+  // Model tokens (input + output) per client per UTC day; 0 turns the quota off
+  dailyTokens: number;
+  // Gallery saves and updates allowed per client in the same window; 0 turns the limit off
+  maxSaves: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let store: RateLimitStore | null = null;
+
+// Limits from RATE_LIMIT_REQUESTS, RATE_LIMIT_WINDOW_SECONDS, DAILY_TOKEN_QUOTA and SAVE_RATE_LIMIT
+export function getRateLimitConfig(): RateLimitConfig {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value || '', 10);
+    return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+  };
+
+  return {
+    maxRequests: number(process.env.RATE_LIMIT_REQUESTS, 10),
+    windowMs: Math.max(number(process.env.RATE_LIMIT_WINDOW_SECONDS, 600), 1) * 1000,
+    dailyTokens: number(process.env.DAILY_TOKEN_QUOTA, 200000),
+    maxSaves: number(process.env.SAVE_RATE_LIMIT, 20)
+  };
+}
+
+// Store chosen by RATE_LIMIT_STORE; only "memory" ships today
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const name = process.env.RATE_LIMIT_STORE || 'memory';
+    if (name !== 'memory') {
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}"; expected "memory"`);
+    }
+    store = createMemoryStore();
+  }
+  return store;
+}
+
+// A client is limited both by IP and by owner session. Clearing cookies only resets the session key, so the
+// IP has to be one the client cannot choose: the entry the trusted proxies appended to X-Forwarded-For
+export function clientKeys(req: NextApiRequest, res: NextApiResponse): string[] {
+  return [`ip:${clientIp(req)}`, `session:${ensureOwnerId(req, res)}`];
+}
+
+// TRUSTED_PROXY_HOPS proxies (default 1, as on Vercel) each append the address they saw, so the client's is
+// that many entries from the right; anything further left came from the client. 0 trusts no header
+function clientIp(req: NextApiRequest) {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10);
+  const header = req.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  if (hops > 0 && forwarded.length > 0) {
+    return forwarded[Math.max(forwarded.length - hops, 0)];
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+export async function getQuotaStatus(keys: string[], { record = false } = {}): Promise<QuotaStatus> {
+  const config = getRateLimitConfig();
+  const rateLimits = getRateLimitStore();
+  const now = Date.now();
+
+  let remaining = config.maxRequests;
+  let retryAfterSeconds = 0;
+  if (config.maxRequests > 0) {
+    for (const key of keys) {
+      const window = await rateLimits.slide(`requests:${key}`, {
+        now,
+        windowMs: config.windowMs,
+        limit: config.maxRequests,
+        record: record && remaining > 0
+      });
+      remaining = Math.min(remaining, config.maxRequests - window.count);
+      if (!window.allowed && window.oldest !== null) {
+        retryAfterSeconds = Math.max(retryAfterSeconds, Math.ceil((window.oldest + config.windowMs - now) / 1000));
+      }
+    }
+  }
+
+  let used = 0;
+  for (const key of keys) {
+    used = Math.max(used, await rateLimits.get(dailyTokenKey(key, now)));
+  }
+
+  return {
+    requests: { limit: config.maxRequests, remaining: Math.max(remaining, 0), retryAfterSeconds },
+    tokens: {
+      limit: config.dailyTokens,
+      used,
+      remaining: Math.max(config.dailyTokens - used, 0),
+      resetSeconds: Math.ceil((DAY_MS - (now % DAY_MS)) / 1000)
+    }
+  };
+}
+
+// Admit one model request or answer 429 with Retry-After; returns the client's keys for recordTokens
+export async function limitModelRequest(req: NextApiRequest, res: NextApiResponse): Promise<string[] | null> {
+  const keys = clientKeys(req, res);
+  const { dailyTokens } = getRateLimitConfig();
+
+  // Check the token quota first so a client that is out of tokens does not also use up requests
+  const before = await getQuotaStatus(keys);
+  if (dailyTokens > 0 && before.tokens.remaining === 0) {
+    rejectOverLimit(res, 'Daily token quota used up', before.tokens.resetSeconds, before);
+    return null;
+  }
+
+  const quota = await getQuotaStatus(keys, { record: true });
+  if (quota.requests.retryAfterSeconds > 0) {
+    rejectOverLimit(res, 'Too many requests', quota.requests.retryAfterSeconds, quota);
+    return null;
+  }
+
+  if (quota.requests.limit > 0) {
+    res.setHeader('X-RateLimit-Limit', String(quota.requests.limit));
+    res.setHeader('X-RateLimit-Remaining', String(quota.requests.remaining));
+  }
+  return keys;
+}
+
+// Admit one gallery save or answer 429 with Retry-After; saves have their own window, so they never use up generations
+export async function limitSaveRequest(req: NextApiRequest, res: NextApiResponse) {
+  const { maxSaves, windowMs } = getRateLimitConfig();
+  if (maxSaves === 0) {
+    return true;
+  }
+
+  const now = Date.now();
+  let retryAfterSeconds = 0;
+  for (const key of clientKeys(req, res)) {
+    const window = await getRateLimitStore().slide(`saves:${key}`, { now, windowMs, limit: maxSaves, record: retryAfterSeconds === 0 });
+    if (!window.allowed && window.oldest !== null) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, Math.ceil((window.oldest + windowMs - now) / 1000));
+    }
+  }
+
+  if (retryAfterSeconds > 0) {
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+    res.status(429).json({ error: 'Too many saves', retryAfter: retryAfterSeconds });
+    return false;
+  }
+  return true;
+}
+
+// Charge a model call's tokens against every key's daily quota
+export async function recordTokens(keys: string[], usage: TokenUsage) {
+  const now = Date.now();
+  const tokens = usage.inputTokens + usage.outputTokens;
+  const ttlMs = DAY_MS - (now % DAY_MS);
+  await Promise.all(keys.map(key => getRateLimitStore().increment(dailyTokenKey(key, now), tokens, ttlMs)));
+}
+
+// onUsage hook that charges each model call as soon as it finishes, including calls that time out
+export function tokenCharger(keys: string[]) {
+  return (usage: TokenUsage) => {
+    recordTokens(keys, usage).catch(error => logger.error('Failed to record token usage', { error }));
+  };
+}
+
+function rejectOverLimit(res: NextApiResponse, error: string, retryAfterSeconds: number, quota: QuotaStatus) {
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  res.status(429).json({ error, retryAfter: retryAfterSeconds, quota });
+}
+
+function dailyTokenKey(key: string, now: number) {
+  return `tokens:${key}:${new Date(now).toISOString().slice(0, 10)}`;
+}
@@ -0,0 +1,49 @@
+// Memory Store - Per-process rate limit state for local development and single-instance deployments
+import type { RateLimitStore } from './types';
+
+// Expired keys are swept after this many writes
+const SWEEP_EVERY = 500;
+
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { hits: number[]; expiresAt: number }>();
+  const counters = new Map<string, { value: number; expiresAt: number }>();
+  let writes = 0;
+
+  const sweep = (now: number) => {
+    if (++writes % SWEEP_EVERY !== 0) {
+      return;
+    }
+    windows.forEach((entry, key) => entry.expiresAt <= now && windows.delete(key));
+    counters.forEach((entry, key) => entry.expiresAt <= now && counters.delete(key));
+  };
+
+  return {
+    name: 'memory',
+
+    async slide(key, { now, windowMs, limit, record }) {
+      const hits = (windows.get(key)?.hits || []).filter(time => time > now - windowMs);
+      const allowed = hits.length < limit;
+      if (allowed && record) {
+        hits.push(now);
+      }
+      windows.set(key, { hits, expiresAt: now + windowMs });
+      sweep(now);
+      return { allowed, count: hits.length, oldest: hits.length > 0 ? hits[0] : null };
+    },
+
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      const current = counters.get(key);
+      const entry = current && current.expiresAt > now ? current : { value: 0, expiresAt: now + ttlMs };
+      entry.value += amount;
+      counters.set(key, entry);
+      sweep(now);
+      return entry.value;
+    },
+
+    async get(key) {
+      const entry = counters.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.value : 0;
+    }
+  };
+}
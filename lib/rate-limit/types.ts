@@ -0,0 +1,41 @@
+// Rate Limit Types - Quota status shared with the client and the store contract behind lib/rate-limit
+
+export interface RequestAllowance {
+  limit: number;
+  remaining: number;
+  // Seconds until another request is allowed (0 while requests remain)
+  retryAfterSeconds: number;
+}
+
+export interface TokenAllowance {
+  // 0 means no daily quota
+  limit: number;
+  used: number;
+  remaining: number;
+  // Seconds until the daily quota resets (UTC midnight)
+  resetSeconds: number;
+}
+
+// What a client may still spend, as returned by /api/quota and on 429 responses
+export interface QuotaStatus {
+  requests: RequestAllowance;
+  tokens: TokenAllowance;
+}
+
+export interface WindowResult {
+  allowed: boolean;
+  // Hits inside the window after this call
+  count: number;
+  // Time of the oldest hit still inside the window, or null when there is none
+  oldest: number | null;
+}
+
+// Atomic operations a store implements; a Redis store maps these onto sorted sets and INCRBY
+export interface RateLimitStore {
+  name: string;
+  // Drop hits older than the window, then record one more only if fewer than limit remain
+  slide(key: string, options: { now: number; windowMs: number; limit: number; record: boolean }): Promise<WindowResult>;
+  // Add to a counter that expires ttlMs after it is created; returns the new total
+  increment(key: string, amount: number, ttlMs: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
@@ -0,0 +1,166 @@
+// Blob Storage - Gallery records as JSON blobs in Vercel Blob
+import { randomBytes } from 'crypto';
+import { del, list, put } from '@vercel/blob';
+import { logger } from '../logger';
+import type { GalleryIndex, StorageBackend, StoredApp } from './types';
+
+// Blob only offers public access, so every record and index claim lives at a pathname with a random token:
+// the URL is the only key to it and is never sent to browsers. Each write gets a new token, so a CDN copy is
+// never read stale, and the previous blob is deleted. Records are apps/<id>/<token>.json; older stores
+// used apps/<id>.json, which reads still find and the next write replaces
+const PREFIX = 'apps/';
+// Index revisions are claimed as uniquely named blobs; revision numbers count down so the newest lists first
+const INDEX_PREFIX = 'gallery-index/';
+const REVISION_WIDTH = 10;
+const REVISION_CEILING = Math.pow(10, REVISION_WIDTH) - 1;
+// Older revisions kept around after a write, for readers that already looked one up
+const KEPT_REVISIONS = 3;
+// Claims listed when looking for the newest revision's winner; more racing writers than this is not expected
+const CLAIM_PAGE_SIZE = 20;
+
+export function createBlobStorage(): StorageBackend {
+  return {
+    name: 'blob',
+
+    async read(id) {
+      const latest = await findLatestRecord(id);
+      if (!latest) {
+        return null;
+      }
+      const response = await fetch(latest.url, { cache: 'no-store' });
+      return response.ok ? await response.json() : null;
+    },
+
+    async write(app: StoredApp) {
+      const pathname = `${PREFIX}${app.id}/${secretToken()}.json`;
+      await put(pathname, JSON.stringify(app), {
+        access: 'public',
+        addRandomSuffix: false,
+        contentType: 'application/json',
+        cacheControlMaxAge: 60
+      });
+      const replaced = (await findRecordBlobs(app.id)).filter(blob => blob.pathname !== pathname).map(blob => blob.url);
+      if (replaced.length > 0) {
+        await del(replaced).catch(error => logger.warn('Failed to remove replaced app record', { error }));
+      }
+    },
+
+    async remove(id) {
+      const blobs = await findRecordBlobs(id);
+      if (blobs.length === 0) {
+        return false;
+      }
+      await del(blobs.map(blob => blob.url));
+      return true;
+    },
+
+    // Pages are counted in blobs; an id caught mid-update shows up once, as its newest record
+    async list({ cursor, limit }) {
+      const result = await list({ prefix: PREFIX, limit, cursor });
+      const newest = new Map<string, typeof result.blobs[number]>();
+      for (const blob of result.blobs) {
+        const id = recordIdOf(blob.pathname);
+        const seen = newest.get(id);
+        if (!seen || new Date(blob.uploadedAt).getTime() > new Date(seen.uploadedAt).getTime()) {
+          newest.set(id, blob);
+        }
+      }
+      const apps = await Promise.all(
+        Array.from(newest.values()).map(async (blob) => {
+          const response = await fetch(blob.url, { cache: 'no-store' });
+          return response.ok ? await response.json() as StoredApp : null;
+        })
+      );
+
+      return {
+        apps: apps.filter(Boolean),
+        cursor: result.hasMore && result.cursor ? result.cursor : null
+      };
+    },
+
+    async readIndex() {
+      const latest = await findLatestIndex();
+      if (!latest) {
+        return null;
+      }
+      const response = await fetch(latest.url, { cache: 'no-store' });
+      return response.ok ? await response.json() : null;
+    },
+
+    // Blob has no conditional put, so every writer that saw revision N - 1 puts its own claim blob for N.
+    // The claim the Blob server stamped first wins (lowest pathname on a tie) and readers only ever read
+    // the winner. A claim that lands after a writer's check has a later stamp, so it can never overtake
+    // a writer that already saw itself winning; losers remove their claim and retry
+    async writeIndex(index: GalleryIndex) {
+      const latest = await findLatestIndex();
+      if ((latest ? latest.revision : 0) !== index.revision - 1) {
+        return false;
+      }
+
+      const pathname = `${revisionPrefix(index.revision)}${Date.now().toString(36)}${secretToken()}.json`;
+      const { url } = await put(pathname, JSON.stringify(index), {
+        access: 'public',
+        addRandomSuffix: false,
+        contentType: 'application/json',
+        cacheControlMaxAge: 60
+      });
+      const winner = await findLatestIndex();
+      if (!winner || winner.pathname !== pathname) {
+        await del(url).catch(error => logger.warn('Failed to remove losing gallery index claim', { error }));
+        return false;
+      }
+
+      await pruneIndexRevisions(index.revision).catch(error => logger.warn('Failed to prune gallery index revisions', { error }));
+      return true;
+    }
+  };
+}
+
+function revisionPrefix(revision: number) {
+  return `${INDEX_PREFIX}${('0000000000' + (REVISION_CEILING - revision)).slice(-REVISION_WIDTH)}-`;
+}
+
+function revisionOf(pathname: string) {
+  return REVISION_CEILING - parseInt(pathname.slice(INDEX_PREFIX.length, INDEX_PREFIX.length + REVISION_WIDTH), 10);
+}
+
+// The winning claim of the newest revision: earliest upload, then lowest pathname
+async function findLatestIndex() {
+  const { blobs } = await list({ prefix: INDEX_PREFIX, limit: CLAIM_PAGE_SIZE });
+  if (blobs.length === 0) {
+    return null;
+  }
+  const revision = revisionOf(blobs[0].pathname);
+  const [winner] = blobs
+    .filter(blob => revisionOf(blob.pathname) === revision)
+    .sort((a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime() || (a.pathname < b.pathname ? -1 : 1));
+  return { url: winner.url, pathname: winner.pathname, revision };
+}
+
+async function pruneIndexRevisions(latest: number) {
+  const { blobs } = await list({ prefix: INDEX_PREFIX, limit: KEPT_REVISIONS + CLAIM_PAGE_SIZE });
+  const stale = blobs.filter(blob => revisionOf(blob.pathname) <= latest - KEPT_REVISIONS).map(blob => blob.url);
+  if (stale.length > 0) {
+    await del(stale);
+  }
+}
+
+function secretToken() {
+  return randomBytes(16).toString('hex');
+}
+
+// apps/<id>/<token>.json, or apps/<id>.json from older stores
+function recordIdOf(pathname: string) {
+  return pathname.slice(PREFIX.length).split(/[/.]/)[0];
+}
+
+// Blob URLs carry a store-specific host and a random token, so records are always looked up by listing
+async function findRecordBlobs(id: string) {
+  const { blobs } = await list({ prefix: `${PREFIX}${id}` });
+  return blobs.filter(blob => recordIdOf(blob.pathname) === id);
+}
+
+async function findLatestRecord(id: string) {
+  const blobs = await findRecordBlobs(id);
+  return blobs.sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime())[0] || null;
+}
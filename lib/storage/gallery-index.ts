@@ -0,0 +1,90 @@
+// Gallery Index - One manifest of app summaries, kept in step with every write and rebuildable from the records
+import type { AppSummary, GalleryIndex, StorageBackend, StoredApp } from './types';
+
+// Attempts before giving up when other writers keep winning the revision race
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 50;
+const REBUILD_PAGE_SIZE = 100;
+
+export function summarizeApp(app: StoredApp): AppSummary {
+  return {
+    id: app.id,
+    title: app.title || 'Untitled app',
+    description: app.description || '',
+    theme: app.theme,
+    layout: app.layout,
+    thumbnail: app.thumbnail,
+    createdAt: app.createdAt,
+    featured: Boolean(app.featured),
+    // Counted from the remixes whenever the index is written
+    forks: 0,
+    forkedFrom: app.forkedFrom,
+    ownerId: app.ownerId,
+    published: app.published !== false
+  };
+}
+
+// Summaries from the index, building it first if this store has never had one
+export async function readGalleryIndex(backend: StorageBackend): Promise<AppSummary[]> {
+  const index = await backend.readIndex();
+  return index ? index.apps : (await rebuildGalleryIndex(backend)).apps;
+}
+
+// Add or replace one app's summary; call after the record itself is written
+export function indexApp(backend: StorageBackend, app: StoredApp) {
+  const summary = summarizeApp(app);
+  return changeGalleryIndex(backend, apps => [...apps.filter(item => item.id !== app.id), summary]);
+}
+
+// Call after the record itself is removed
+export function unindexApp(backend: StorageBackend, id: string) {
+  return changeGalleryIndex(backend, apps => apps.filter(item => item.id !== id));
+}
+
+// Recreate the index from the per-app records, e.g. after a failed write left it behind
+export async function rebuildGalleryIndex(backend: StorageBackend): Promise<GalleryIndex> {
+  const apps: AppSummary[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await backend.list({ cursor: cursor || undefined, limit: REBUILD_PAGE_SIZE });
+    page.apps.forEach(app => apps.push(summarizeApp(app)));
+    cursor = page.cursor;
+  } while (cursor);
+
+  return updateGalleryIndex(backend, () => apps);
+}
+
+// A store without an index gets a full rebuild, which already reflects the record just written
+async function changeGalleryIndex(backend: StorageBackend, change: (apps: AppSummary[]) => AppSummary[]) {
+  return (await backend.readIndex()) ? updateGalleryIndex(backend, change) : rebuildGalleryIndex(backend);
+}
+
+// Every saved remix links back to its parent, so counts are derived rather than bumped on the parent's record
+function countForks(apps: AppSummary[]) {
+  const forks = new Map<string, number>();
+  for (const app of apps) {
+    if (app.forkedFrom) {
+      forks.set(app.forkedFrom.id, (forks.get(app.forkedFrom.id) || 0) + 1);
+    }
+  }
+  return apps.map(app => ({ ...app, forks: forks.get(app.id) || 0 }));
+}
+
+// Optimistic update: apply the change to the latest revision and retry from scratch if another writer got there first
+async function updateGalleryIndex(backend: StorageBackend, change: (apps: AppSummary[]) => AppSummary[]): Promise<GalleryIndex> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const current = await backend.readIndex();
+    const next: GalleryIndex = {
+      revision: (current ? current.revision : 0) + 1,
+      updatedAt: new Date().toISOString(),
+      apps: countForks(change(current ? current.apps : [])).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    };
+
+    if (await backend.writeIndex(next)) {
+      return next;
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * Math.pow(2, attempt) * (0.5 + Math.random())));
+  }
+
+  throw new Error(`Gallery index is busy; gave up after ${MAX_ATTEMPTS} attempts`);
+}
@@ -0,0 +1,114 @@
+// Gallery Storage - Save, read, page, update and delete published apps through the configured backend
+import { createBlobStorage } from './blob';
+import { createLocalStorage } from './local';
+import { indexApp, readGalleryIndex, rebuildGalleryIndex, unindexApp } from './gallery-index';
+import type { AppSummary, GalleryIndex, ListOptions, ListResult, StorageBackend, StoredApp } from './types';
+
+export { summarizeApp } from './gallery-index';
+export type { AppLineage, AppSummary, GalleryIndex, ListOptions, ListResult, StorageBackend, StoredApp } from './types';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+// Base-36 width of the reversed timestamp at the front of every id
+const TIME_WIDTH = 9;
+const TIME_CEILING = Math.pow(36, TIME_WIDTH) - 1;
+
+let storage: StorageBackend | null = null;
+
+// Backend chosen by STORAGE_DRIVER ("blob" or "local"); defaults to Blob when a token is configured
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || (process.env.BLOB_READ_WRITE_TOKEN ? 'blob' : 'local');
+    switch (driver) {
+      case 'blob':
+        storage = createBlobStorage();
+        break;
+      case 'local':
+        storage = createLocalStorage();
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER "${driver}"; expected "blob" or "local"`);
+    }
+  }
+  return storage;
+}
+
+// Ids start with a reversed timestamp so key order is newest first in every backend
+export function generateAppId() {
+  const time = ('000000000' + (TIME_CEILING - Date.now()).toString(36)).slice(-TIME_WIDTH);
+  const random = (Math.random().toString(36) + '0000').substring(2, 6);
+  return time + random;
+}
+
+// Ids end up in file and blob paths, so only plain lowercase alphanumerics are accepted
+export function isAppId(id: unknown): id is string {
+  return typeof id === 'string' && /^[a-z0-9]{1,32}$/.test(id);
+}
+
+export async function saveApp(app: Omit<StoredApp, 'id' | 'createdAt' | 'featured'>): Promise<StoredApp> {
+  const record: StoredApp = {
+    ...app,
+    id: generateAppId(),
+    createdAt: new Date().toISOString(),
+    featured: false
+  };
+  await getStorage().write(record);
+  await indexApp(getStorage(), record);
+  return record;
+}
+
+export async function getApp(id: string): Promise<StoredApp | null> {
+  return isAppId(id) ? getStorage().read(id) : null;
+}
+
+export async function listApps({ cursor, limit = DEFAULT_PAGE_SIZE }: ListOptions = {}): Promise<ListResult> {
+  const pageSize = Math.min(Math.max(1, Math.floor(limit) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  return getStorage().list({ cursor: cursor || undefined, limit: pageSize });
+}
+
+// Merge changes into an existing record; id and creation time cannot change
+export async function updateApp(id: string, changes: Partial<StoredApp>): Promise<StoredApp | null> {
+  const existing = await getApp(id);
+  if (!existing) {
+    return null;
+  }
+
+  const updated: StoredApp = {
+    ...existing,
+    ...changes,
+    id: existing.id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString()
+  };
+  await getStorage().write(updated);
+  await indexApp(getStorage(), updated);
+  return updated;
+}
+
+// The app with its current remix count from the gallery index; counts stored on older records are ignored
+export async function withForkCount(app: StoredApp): Promise<StoredApp> {
+  const summary = (await listAppSummaries()).find(item => item.id === app.id);
+  return { ...app, forks: summary ? summary.forks : 0 };
+}
+
+export async function deleteApp(id: string) {
+  if (!isAppId(id) || !(await getStorage().remove(id))) {
+    return false;
+  }
+  await unindexApp(getStorage(), id);
+  return true;
+}
+
+// Summaries of every saved app (published or not), newest first, read from the gallery index
+export function listAppSummaries(): Promise<AppSummary[]> {
+  return readGalleryIndex(getStorage());
+}
+
+export async function listOwnerApps(ownerId: string): Promise<AppSummary[]> {
+  return (await listAppSummaries()).filter(app => app.ownerId === ownerId);
+}
+
+export function rebuildIndex(): Promise<GalleryIndex> {
+  return rebuildGalleryIndex(getStorage());
+}
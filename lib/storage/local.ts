@@ -0,0 +1,124 @@
+// Local Storage - Gallery records as JSON files on disk for development without Vercel credentials
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GalleryIndex, StorageBackend, StoredApp } from './types';
+
+const DEFAULT_DIRECTORY = path.join(process.cwd(), '.data', 'apps');
+// Not .json, so the index never shows up as an app in list()
+const INDEX_FILE = 'gallery-index.manifest';
+// A lock older than this belongs to a crashed writer
+const STALE_LOCK_MS = 10000;
+
+export function createLocalStorage(directory = process.env.LOCAL_STORAGE_DIR || DEFAULT_DIRECTORY): StorageBackend {
+  const filePath = (id: string) => path.join(directory, `${id}.json`);
+
+  const indexPath = path.join(directory, INDEX_FILE);
+  const lockPath = `${indexPath}.lock`;
+
+  const readJson = async <T>(file: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const readFile = (id: string) => readJson<StoredApp>(filePath(id));
+
+  // Write then rename so readers never see a half-written file; concurrent writes in one process each get their own temp file
+  const replaceFile = async (file: string, content: string) => {
+    await fs.mkdir(directory, { recursive: true });
+    const tempPath = `${file}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, file);
+  };
+
+  // Exclusive-create lock file; returns false while another writer holds it
+  const acquireLock = async () => {
+    await fs.mkdir(directory, { recursive: true });
+    try {
+      await (await fs.open(lockPath, 'wx')).close();
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+        await fs.unlink(lockPath).catch(() => undefined);
+      }
+      return false;
+    }
+  };
+
+  return {
+    name: 'local',
+
+    read: readFile,
+
+    async write(app: StoredApp) {
+      await replaceFile(filePath(app.id), JSON.stringify(app, null, 2));
+    },
+
+    async remove(id) {
+      try {
+        await fs.unlink(filePath(id));
+        return true;
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async list({ cursor, limit }) {
+      let names: string[];
+      try {
+        names = await fs.readdir(directory);
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return { apps: [], cursor: null };
+        }
+        throw error;
+      }
+
+      const ids = names
+        .filter(name => name.endsWith('.json'))
+        .map(name => name.slice(0, -'.json'.length))
+        .sort()
+        .filter(id => !cursor || id > cursor);
+      const pageIds = ids.slice(0, limit);
+      const apps = await Promise.all(pageIds.map(readFile));
+
+      return {
+        apps: apps.filter(Boolean),
+        cursor: ids.length > limit ? pageIds[pageIds.length - 1] : null
+      };
+    },
+
+    readIndex() {
+      return readJson<GalleryIndex>(indexPath);
+    },
+
+    async writeIndex(index: GalleryIndex) {
+      if (!(await acquireLock())) {
+        return false;
+      }
+      try {
+        const current = await readJson<GalleryIndex>(indexPath);
+        if ((current ? current.revision : 0) !== index.revision - 1) {
+          return false;
+        }
+        await replaceFile(indexPath, JSON.stringify(index));
+        return true;
+      } finally {
+        await fs.unlink(lockPath).catch(() => undefined);
+      }
+    }
+  };
+}
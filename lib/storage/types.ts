@@ -0,0 +1,84 @@
+// Storage Types - Gallery records and the backend contract behind lib/storage
+import type { AppData, AppPage } from '../app-generator';
+
+// Parent of a remixed app
+export interface AppLineage {
+  id: string;
+  title: string;
+}
+
+// A published gallery app as persisted by every backend
+export interface StoredApp {
+  id: string;
+  title: string;
+  description: string;
+  theme: string;
+  layout: string;
+  thumbnail: string;
+  files: Record<string, string>;
+  code?: AppData['code'];
+  config?: AppData['config'];
+  pages?: AppPage[];
+  // Idea the app was generated from, so remixes can start from it
+  idea?: string;
+  forkedFrom?: AppLineage;
+  createdAt: string;
+  updatedAt?: string;
+  featured: boolean;
+  // Number of saved remixes of this app; counted by the gallery index and filled in by withForkCount, not stored
+  forks?: number;
+  // Hash of the saver's session (see lib/owner); apps without one cannot be edited
+  ownerId?: string;
+  // False hides the app from everyone but its owner; missing means published
+  published?: boolean;
+}
+
+// The part of a record the gallery index keeps, so listings never fetch every app
+export interface AppSummary {
+  id: string;
+  title: string;
+  description: string;
+  theme: string;
+  layout: string;
+  thumbnail: string;
+  createdAt: string;
+  featured: boolean;
+  forks: number;
+  forkedFrom?: AppLineage;
+  ownerId?: string;
+  published: boolean;
+}
+
+// Gallery manifest; every successful write bumps revision by exactly one
+export interface GalleryIndex {
+  revision: number;
+  updatedAt: string;
+  // Ascending id order (newest first)
+  apps: AppSummary[];
+}
+
+export interface ListOptions {
+  // Opaque cursor from the previous page; omit for the first page
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ListResult {
+  apps: StoredApp[];
+  // Cursor for the next page, or null when this is the last page
+  cursor: string | null;
+}
+
+// Record-level operations a backend implements; ids, timestamps and merging live in lib/storage
+export interface StorageBackend {
+  name: string;
+  read(id: string): Promise<StoredApp | null>;
+  write(app: StoredApp): Promise<void>;
+  remove(id: string): Promise<boolean>;
+  // Records in ascending id order (ids sort newest first)
+  list(options: { cursor?: string; limit: number }): Promise<ListResult>;
+  // Latest gallery index, or null if none has been written yet
+  readIndex(): Promise<GalleryIndex | null>;
+  // Store index only if the stored revision is still index.revision - 1; false means another writer won
+  writeIndex(index: GalleryIndex): Promise<boolean>;
+}
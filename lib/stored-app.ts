@@ -0,0 +1,61 @@
+// Stored Apps - Turn published gallery records back into workspace apps (safe to use in the browser)
+import type { AppData } from './app-generator';
+import type { GeneratedApp } from './generation';
+import { ModerationFinding, scanCode } from './moderation';
+import type { StoredApp } from './storage/types';
+import { CUSTOM_THEME_ID, parseCustomTheme } from './themes';
+
+// Rebuild the code map (keys relative to src/) for apps saved without one
+export function codeFromFiles(files: Record<string, string> = {}) {
+  const code: Record<string, string> = {};
+  for (const [path, content] of Object.entries(files)) {
+    if (path.startsWith('src/')) {
+      code[path.slice('src/'.length)] = content;
+    }
+  }
+  return code as GeneratedApp['code'];
+}
+
+export function toGeneratedApp(saved: StoredApp): GeneratedApp {
+  return {
+    title: saved.title,
+    description: saved.description,
+    code: saved.code || codeFromFiles(saved.files),
+    config: saved.config || { theme: saved.theme, layout: saved.layout, features: [] },
+    pages: saved.pages,
+    files: saved.files || {},
+    timestamp: Date.now(),
+    id: saved.id
+  };
+}
+
+// Record fields taken from a workspace app when it is published or republished
+export function fromAppData(appData: AppData & { files: Record<string, string> }) {
+  return {
+    theme: appData.config.theme,
+    layout: appData.config.layout,
+    description: appData.description,
+    files: appData.files,
+    code: appData.code,
+    config: withValidCustomTheme(appData.config),
+    pages: appData.pages
+  };
+}
+
+// Scan what a saved app would serve: its src/ files, plus any code entries that differ from them
+export function scanAppData(appData: AppData & { files: Record<string, string> }): ModerationFinding[] {
+  const packaged = codeFromFiles(appData.files);
+  const unpackaged: Record<string, string> = {};
+  for (const [key, source] of Object.entries(appData.code || {})) {
+    if (packaged[key] !== source) {
+      unpackaged[key] = source;
+    }
+  }
+  return [...scanCode(packaged), ...scanCode(unpackaged)];
+}
+
+// Saved custom themes are re-checked, so remixes and exports only ever see clean settings
+function withValidCustomTheme({ customTheme, ...config }: AppData['config']): AppData['config'] {
+  const valid = config.theme === CUSTOM_THEME_ID ? parseCustomTheme(customTheme) : null;
+  return valid ? { ...config, customTheme: valid } : config;
+}
@@ -0,0 +1,273 @@
+// Themes - The one registry of theme presets, custom theme settings and what every consumer derives from them
+// (safe to use in the browser)
+
+export interface ThemePalette {
+  primary: string;
+  secondary: string;
+  accent: string;
+  background: string;
+  surface: string;
+  // Body text on background and surface
+  foreground: string;
+}
+
+export type ThemeRadius = 'none' | 'sm' | 'md' | 'lg' | 'xl';
+export type ThemeShadow = 'none' | 'soft' | 'medium' | 'strong';
+
+// Everything a theme decides about the look; presets and custom themes share this shape
+export interface ThemeSettings {
+  palette: ThemePalette;
+  // Font family name; THEME_FONTS lists the ones with known fallbacks
+  font: string;
+  radius: ThemeRadius;
+  shadow: ThemeShadow;
+  dark: boolean;
+}
+
+// A theme the user built, saved as AppData.config.customTheme next to theme: 'custom'
+export interface CustomTheme extends ThemeSettings {
+  name?: string;
+}
+
+export interface ThemeDefinition extends ThemeSettings {
+  id: string;
+  label: string;
+  // How the prompt describes the look
+  description: string;
+  // First word of fallback app titles
+  titleWord: string;
+  // Gallery thumbnail background
+  thumbnail: string;
+  // Tailwind color family and gradient for the canned templates; custom themes use their own colors instead
+  family?: string;
+  gradient?: string;
+}
+
+export const CUSTOM_THEME_ID = 'custom';
+
+export const THEME_PALETTE_KEYS: (keyof ThemePalette)[] = ['primary', 'secondary', 'accent', 'background', 'surface', 'foreground'];
+
+// Fonts offered by the builder, with the stacks they fall back through
+export const THEME_FONTS: Record<string, string> = {
+  'System': "-apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', sans-serif",
+  'Helvetica': "'Helvetica Neue', Helvetica, Arial, sans-serif",
+  'Trebuchet MS': "'Trebuchet MS', 'Lucida Grande', sans-serif",
+  'Verdana': 'Verdana, Geneva, sans-serif',
+  'Georgia': "Georgia, 'Times New Roman', serif",
+  'Palatino': "Palatino, 'Palatino Linotype', 'Book Antiqua', serif",
+  'Menlo': "Menlo, Consolas, 'Liberation Mono', monospace"
+};
+
+export const THEME_RADII: Record<ThemeRadius, string> = {
+  none: '0',
+  sm: '0.25rem',
+  md: '0.5rem',
+  lg: '0.75rem',
+  xl: '1.25rem'
+};
+
+export const THEME_SHADOWS: Record<ThemeShadow, string> = {
+  none: 'none',
+  soft: '0 1px 3px rgba(0, 0, 0, 0.08), 0 1px 2px rgba(0, 0, 0, 0.04)',
+  medium: '0 4px 6px rgba(0, 0, 0, 0.1)',
+  strong: '0 12px 28px rgba(0, 0, 0, 0.18)'
+};
+
+// Background, surface and text swapped in when dark mode is switched on or off
+const MODE_COLORS: Record<'light' | 'dark', Pick<ThemePalette, 'background' | 'surface' | 'foreground'>> = {
+  light: { background: '#FFFFFF', surface: '#F5F5F5', foreground: '#111111' },
+  dark: { background: '#0F172A', surface: '#1E293B', foreground: '#F1F5F9' }
+};
+
+export const THEME_PRESETS: ThemeDefinition[] = [
+  {
+    id: 'minimal',
+    label: 'Minimal',
+    description: 'clean, simple, and elegant design',
+    titleWord: 'Clean',
+    thumbnail: '#f8f9fa',
+    family: 'gray',
+    gradient: 'from-gray-100 to-white',
+    palette: { primary: '#000000', secondary: '#666666', accent: '#007AFF', background: '#FFFFFF', surface: '#F5F5F5', foreground: '#111111' },
+    font: 'System',
+    radius: 'sm',
+    shadow: 'soft',
+    dark: false
+  },
+  {
+    id: 'playful',
+    label: 'Playful',
+    description: 'fun, colorful, and engaging interface',
+    titleWord: 'Fun',
+    thumbnail: '#ff6b9d',
+    family: 'purple',
+    gradient: 'from-pink-100 via-purple-50 to-indigo-100',
+    palette: { primary: '#8B5CF6', secondary: '#A78BFA', accent: '#F59E0B', background: '#FDF2F8', surface: '#FFFFFF', foreground: '#3B0764' },
+    font: 'Trebuchet MS',
+    radius: 'xl',
+    shadow: 'medium',
+    dark: false
+  },
+  {
+    id: 'professional',
+    label: 'Professional',
+    description: 'business-focused, clean, and trustworthy',
+    titleWord: 'Pro',
+    thumbnail: '#3b82f6',
+    family: 'blue',
+    gradient: 'from-blue-50 to-indigo-100',
+    palette: { primary: '#1E40AF', secondary: '#3B82F6', accent: '#059669', background: '#F8FAFC', surface: '#FFFFFF', foreground: '#0F172A' },
+    font: 'Helvetica',
+    radius: 'md',
+    shadow: 'soft',
+    dark: false
+  },
+  {
+    id: 'artistic',
+    label: 'Artistic',
+    description: 'creative, expressive, and visually striking',
+    titleWord: 'Creative',
+    thumbnail: '#f59e0b',
+    family: 'orange',
+    gradient: 'from-orange-100 to-red-100',
+    palette: { primary: '#DC2626', secondary: '#F97316', accent: '#7C3AED', background: '#FEF3C7', surface: '#FFFFFF', foreground: '#451A03' },
+    font: 'Georgia',
+    radius: 'lg',
+    shadow: 'strong',
+    dark: false
+  },
+  {
+    id: 'techy',
+    label: 'Techy',
+    description: 'modern, technical, and innovative look',
+    titleWord: 'Tech',
+    thumbnail: '#10b981',
+    family: 'emerald',
+    gradient: 'from-emerald-50 to-teal-100',
+    palette: { primary: '#059669', secondary: '#10B981', accent: '#3B82F6', background: '#ECFDF5', surface: '#FFFFFF', foreground: '#022C22' },
+    font: 'Menlo',
+    radius: 'md',
+    shadow: 'medium',
+    dark: false
+  }
+];
+
+const DEFAULT_PRESET = THEME_PRESETS[0];
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Font names end up in generated CSS and config files, so only plain names are accepted
+const FONT_NAME = /^[A-Za-z0-9][A-Za-z0-9 -]{0,39}$/;
+
+export function getThemePreset(id: string) {
+  return THEME_PRESETS.find(preset => preset.id === id);
+}
+
+// A valid custom theme built from untrusted input (request bodies, saved apps), or null
+export function parseCustomTheme(value: unknown): CustomTheme | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const input = value as Record<string, any>;
+  const palette = {} as ThemePalette;
+  for (const key of THEME_PALETTE_KEYS) {
+    const color = normalizeHexColor(input.palette?.[key]);
+    if (!color) {
+      return null;
+    }
+    palette[key] = color;
+  }
+
+  const font = typeof input.font === 'string' ? input.font.trim() : '';
+  if (!FONT_NAME.test(font) || !THEME_RADII.hasOwnProperty(input.radius) || !THEME_SHADOWS.hasOwnProperty(input.shadow)) {
+    return null;
+  }
+
+  const name = typeof input.name === 'string' ? input.name.replace(/[^\w &'-]/g, '').trim().slice(0, 40) : '';
+  return {
+    ...(name ? { name } : {}),
+    palette,
+    font,
+    radius: input.radius,
+    shadow: input.shadow,
+    dark: input.dark === true
+  };
+}
+
+// The theme an app or request uses: its valid custom theme, else its preset, else Minimal
+export function resolveTheme(config: { theme?: string; customTheme?: unknown } = {}): ThemeDefinition {
+  if (config.theme === CUSTOM_THEME_ID) {
+    const custom = parseCustomTheme(config.customTheme);
+    if (custom) {
+      return {
+        id: CUSTOM_THEME_ID,
+        label: custom.name || 'Custom',
+        description: describeCustomLook(custom),
+        titleWord: 'Modern',
+        thumbnail: custom.palette.primary,
+        palette: custom.palette,
+        font: custom.font,
+        radius: custom.radius,
+        shadow: custom.shadow,
+        dark: custom.dark
+      };
+    }
+  }
+  return getThemePreset(config.theme) || DEFAULT_PRESET;
+}
+
+// Starting point for the builder: a preset's settings as an editable custom theme
+export function customThemeFrom(id: string): CustomTheme {
+  const { palette, font, radius, shadow, dark } = getThemePreset(id) || DEFAULT_PRESET;
+  return { palette: { ...palette }, font, radius, shadow, dark };
+}
+
+// Switch dark mode, swapping in matching background, surface and text colors
+export function withDarkMode(theme: CustomTheme, dark: boolean): CustomTheme {
+  return { ...theme, dark, palette: { ...theme.palette, ...MODE_COLORS[dark ? 'dark' : 'light'] } };
+}
+
+export function fontStack(font: string) {
+  return THEME_FONTS[font] || `'${font}', ${THEME_FONTS.System}`;
+}
+
+// Utility classes for the canned templates: the preset's Tailwind family, or arbitrary values from a custom palette
+export function themeUtilities(theme: ThemeDefinition) {
+  if (theme.family) {
+    return {
+      gradient: theme.gradient,
+      text: `text-${theme.family}-900`,
+      button: `bg-${theme.family}-600 hover:bg-${theme.family}-700`,
+      ring: `focus:ring-${theme.family}-500`
+    };
+  }
+  const { primary, accent, background, surface, foreground } = theme.palette;
+  return {
+    gradient: `from-[${background}] to-[${surface}]`,
+    text: `text-[${foreground}]`,
+    button: `bg-[${primary}] hover:opacity-90`,
+    ring: `focus:ring-[${accent}]`
+  };
+}
+
+// Theme section of the generation prompt: the look plus the tokens the project exposes
+export function describeThemeForPrompt(theme: ThemeDefinition) {
+  const colors = THEME_PALETTE_KEYS.map(key => `${key} ${theme.palette[key]}`).join(', ');
+  return `Theme: ${theme.label} (${theme.description})
+Theme tokens - use these rather than unrelated colors:
+- Colors: ${colors}; available as Tailwind colors (bg-primary, text-foreground, border-accent/40) and CSS variables (var(--primary))
+- Font ${theme.font} (font-theme), corner radius ${THEME_RADII[theme.radius]} (rounded-theme), shadow-theme, ${theme.dark ? 'dark mode: dark backgrounds with light text' : 'light mode'}`;
+}
+
+function describeCustomLook(theme: CustomTheme) {
+  const corners = { none: 'square', sm: 'slightly rounded', md: 'rounded', lg: 'well-rounded', xl: 'very rounded' }[theme.radius];
+  const shadows = { none: 'flat', soft: 'soft shadows', medium: 'medium shadows', strong: 'bold shadows' }[theme.shadow];
+  return `custom ${theme.dark ? 'dark' : 'light'} design set in ${theme.font}, ${corners} corners, ${shadows}`;
+}
+
+function normalizeHexColor(value: unknown) {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value.trim())) {
+    return null;
+  }
+  const hex = value.trim().slice(1).toUpperCase();
+  return `#${hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex}`;
+}
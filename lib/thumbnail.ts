@@ -0,0 +1,17 @@
+// Thumbnails - SVG cards shown for published apps in the gallery
+import type { AppData } from './app-generator';
+import { resolveTheme } from './themes';
+
+export function generateThumbnail(appData: Pick<AppData, 'title' | 'config'>) {
+  // Generate a simple SVG thumbnail based on theme/layout
+  const { thumbnail } = resolveTheme(appData.config);
+
+  return `data:image/svg+xml,${encodeURIComponent(`
+    <svg width="200" height="120" xmlns="http://www.w3.org/2000/svg">
+      <rect width="200" height="120" fill="${thumbnail}"/>
+      <text x="100" y="60" text-anchor="middle" fill="white" font-size="14" font-family="Arial">
+        ${appData.title}
+      </text>
+    </svg>
+  `)}`;
+}
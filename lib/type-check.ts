@@ -0,0 +1,173 @@
+// Type Check - Runs the TypeScript compiler over generated files in memory
+import path from 'path';
+import ts from 'typescript';
+
+export interface TypeDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+export interface TypeCheckResult {
+  ok: boolean;
+  diagnostics: TypeDiagnostic[];
+  checkedFiles: string[];
+}
+
+const ROOT = '/vibe-app/';
+const ENV_FILE = `${ROOT}vibe-env.d.ts`;
+const MAX_DIAGNOSTICS = 50;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.NodeJs,
+  jsx: ts.JsxEmit.Preserve,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  strict: false,
+  noEmit: true,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  skipLibCheck: true,
+  types: []
+};
+
+// Packages the preview and exports provide; their APIs are typed loosely on purpose
+const ENVIRONMENT_DECLARATIONS = `
+declare module 'react';
+declare module 'react-dom';
+declare module 'react-dom/client';
+declare module 'react/jsx-runtime';
+declare module 'lucide-react';
+declare module '*.css';
+
+// Bun runtime, Hono and the Tailwind toolchain, used by the exported build script and server
+declare module 'hono';
+declare module 'hono/*';
+declare module 'node:*';
+declare module 'autoprefixer';
+declare module 'postcss';
+declare module 'tailwindcss';
+declare const Bun: any;
+declare const process: any;
+interface ImportMeta { main: boolean }
+
+declare namespace JSX {
+  interface Element {}
+  interface ElementChildrenAttribute { children: {} }
+  interface IntrinsicAttributes { key?: string | number }
+  interface IntrinsicElements { [elementName: string]: any }
+}
+`;
+
+const CHECKED_FILE = /\.(tsx|ts)$/;
+
+// Default library files are parsed once per process and shared between checks
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+// Type-check every .ts/.tsx file (e.g. src/App.tsx, src/components.tsx) and return positioned diagnostics
+export function typeCheckFiles(files: Record<string, string>): TypeCheckResult {
+  const virtualFiles = new Map<string, string>();
+  for (const [filePath, content] of Object.entries(files || {})) {
+    if (typeof content === 'string' && CHECKED_FILE.test(filePath) && !filePath.endsWith('.d.ts')) {
+      virtualFiles.set(ROOT + filePath.replace(/^\/+/, ''), content);
+    }
+  }
+  const checkedFiles = Array.from(virtualFiles.keys()).map(toRelativePath);
+
+  if (virtualFiles.size === 0) {
+    return { ok: true, diagnostics: [], checkedFiles };
+  }
+
+  virtualFiles.set(ENV_FILE, ENVIRONMENT_DECLARATIONS);
+
+  const libDirectory = path.dirname(ts.getDefaultLibFilePath(COMPILER_OPTIONS));
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (virtualFiles.has(fileName)) {
+        return ts.createSourceFile(fileName, virtualFiles.get(fileName), languageVersion, true, scriptKindFor(fileName));
+      }
+      if (!fileName.startsWith(libDirectory)) {
+        return undefined;
+      }
+      if (!libSourceFiles.has(fileName)) {
+        const text = ts.sys.readFile(fileName);
+        if (text === undefined) {
+          return undefined;
+        }
+        libSourceFiles.set(fileName, ts.createSourceFile(fileName, text, languageVersion));
+      }
+      return libSourceFiles.get(fileName);
+    },
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    getDefaultLibLocation: () => libDirectory,
+    writeFile: () => undefined,
+    getCurrentDirectory: () => ROOT,
+    getDirectories: () => [],
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => virtualFiles.has(fileName) || (fileName.startsWith(libDirectory) && ts.sys.fileExists(fileName)),
+    readFile: (fileName) => virtualFiles.get(fileName) ?? (fileName.startsWith(libDirectory) ? ts.sys.readFile(fileName) : undefined),
+    directoryExists: (directoryName) => `${directoryName}/`.startsWith(ROOT) || directoryName.startsWith(libDirectory)
+  };
+
+  const program = ts.createProgram(Array.from(virtualFiles.keys()), COMPILER_OPTIONS, host);
+  const diagnostics: TypeDiagnostic[] = [];
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (!virtualFiles.has(sourceFile.fileName) || sourceFile.fileName === ENV_FILE) {
+      continue;
+    }
+    const fileDiagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile)
+    ];
+    for (const diagnostic of fileDiagnostics) {
+      if (diagnostic.category !== ts.DiagnosticCategory.Error) {
+        continue;
+      }
+      diagnostics.push(toTypeDiagnostic(diagnostic));
+    }
+  }
+
+  return {
+    ok: diagnostics.length === 0,
+    diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+    checkedFiles
+  };
+}
+
+// One-line summaries suitable for feeding back to the model
+export function formatDiagnostics(diagnostics: TypeDiagnostic[]) {
+  return diagnostics.map(d => `${d.file}:${d.line}:${d.column} - error TS${d.code}: ${d.message}`);
+}
+
+function toTypeDiagnostic(diagnostic: ts.Diagnostic): TypeDiagnostic {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { file: '', line: 0, column: 0, code: diagnostic.code, message };
+  }
+
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return {
+    file: toRelativePath(diagnostic.file.fileName),
+    line: line + 1,
+    column: character + 1,
+    code: diagnostic.code,
+    message
+  };
+}
+
+function toRelativePath(fileName: string) {
+  return fileName.startsWith(ROOT) ? fileName.slice(ROOT.length) : fileName;
+}
+
+function scriptKindFor(fileName: string) {
+  if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  if (fileName.endsWith('.js')) return ts.ScriptKind.JS;
+  return ts.ScriptKind.TS;
+}
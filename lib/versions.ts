@@ -0,0 +1,115 @@
+// Versions - Immutable snapshots of a generated app's files
+import { isSourcePath } from './app-generator';
+import type { GeneratedApp } from './generation';
+
+export type VersionSource = 'generation' | 'refinement' | 'manual' | 'restore';
+
+export interface AppVersion {
+  id: string;
+  number: number;
+  source: VersionSource;
+  prompt: string;
+  files: Readonly<Record<string, string>>;
+  timestamp: number;
+  generationTime?: number;
+  restoredFrom?: string;
+}
+
+// Generated app plus its version history; the live files always match the current version
+export interface VersionedApp extends GeneratedApp {
+  versions: AppVersion[];
+  currentVersionId: string;
+}
+
+export interface VersionInput {
+  source: VersionSource;
+  prompt: string;
+  files: Record<string, string>;
+  generationTime?: number;
+  restoredFrom?: string;
+}
+
+function createVersion(number: number, input: VersionInput): AppVersion {
+  return Object.freeze({
+    id: `v${number}-${Date.now().toString(36)}`,
+    number,
+    source: input.source,
+    prompt: input.prompt,
+    files: Object.freeze({ ...input.files }),
+    timestamp: Date.now(),
+    generationTime: input.generationTime,
+    restoredFrom: input.restoredFrom
+  });
+}
+
+// Modules the packager always writes itself, so they never come back into the code map
+const GENERATED_SOURCES = ['index.tsx', 'theme.css'];
+
+// Rebuild the code map from the files it was packaged into, so modules a refinement adds or removes follow along
+function syncCode(app: GeneratedApp, files: Record<string, string>) {
+  const code: Record<string, string> = {};
+  for (const key of Object.keys(app.code)) {
+    // Older apps were packaged with some modules at the project root
+    const packaged = files[`src/${key}`] ?? files[key];
+    if (packaged !== undefined) {
+      code[key] = packaged;
+    }
+  }
+  for (const [path, content] of Object.entries(files)) {
+    const codeKey = path.replace(/^src\//, '');
+    if (codeKey !== path && isSourcePath(codeKey) && GENERATED_SOURCES.indexOf(codeKey) === -1) {
+      code[codeKey] = content;
+    }
+  }
+  return code as GeneratedApp['code'];
+}
+
+// Wrap a freshly generated app with its first version
+export function createVersionedApp(app: GeneratedApp, prompt: string): VersionedApp {
+  const version = createVersion(1, {
+    source: 'generation',
+    prompt,
+    files: app.files,
+    generationTime: app.generationTime
+  });
+
+  return { ...app, versions: [version], currentVersionId: version.id };
+}
+
+// Record a new version and make it current
+export function commitVersion(app: VersionedApp, input: VersionInput): VersionedApp {
+  const versions = app.versions || [];
+  const version = createVersion(versions.length + 1, input);
+
+  return {
+    ...app,
+    code: syncCode(app, input.files),
+    files: { ...input.files },
+    generationTime: input.generationTime ?? app.generationTime,
+    timestamp: version.timestamp,
+    versions: [...versions, version],
+    currentVersionId: version.id
+  };
+}
+
+// Restoring never rewrites history: it records a new version with the old files
+export function restoreVersion(app: VersionedApp, versionId: string): VersionedApp {
+  const target = app.versions.find(version => version.id === versionId);
+  if (!target) {
+    return app;
+  }
+
+  return commitVersion(app, {
+    source: 'restore',
+    prompt: `Restored version ${target.number}`,
+    files: { ...target.files },
+    generationTime: target.generationTime,
+    restoredFrom: target.id
+  });
+}
+
+// App payload without its history, for requests that only need the current files
+export function withoutHistory(app: VersionedApp): GeneratedApp {
+  const { versions, currentVersionId, ...current } = app;
+  return current;
+}
@@ -7,6 +7,12 @@ const nextConfig = {
     ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
     VERCEL_URL: process.env.VERCEL_URL,
   },
+  experimental: {
+    // The single-HTML export inlines React's UMD builds, which nothing imports
+    outputFileTracingIncludes: {
+      '/api/download-app': ['./node_modules/react/umd/**', './node_modules/react-dom/umd/**'],
+    },
+  },
 }
 
 module.exports = nextConfig
@@ -0,0 +1,24 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '../../../lib/admin';
+import { logger } from '../../../lib/logger';
+import { rebuildIndex } from '../../../lib/storage';
+
+// POST to recreate the gallery index from the per-app records; requires ADMIN_TOKEN as a bearer token
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const index = await rebuildIndex();
+    res.status(200).json({ success: true, revision: index.revision, apps: index.apps.length });
+
+  } catch (error) {
+    logger.error('Index rebuild failed', { error });
+    res.status(500).json({ error: 'Failed to rebuild gallery index' });
+  }
+}
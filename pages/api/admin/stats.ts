@@ -0,0 +1,27 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { isAdminRequest } from '../../../lib/admin';
+import { logger } from '../../../lib/logger';
+import { getGenerationStats } from '../../../lib/metrics';
+
+const MAX_HOURS = 24 * 30;
+
+// GET generation stats for the last ?hours (default 24) from this process's metrics; requires ADMIN_TOKEN
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const hours = Math.min(Math.max(parseFloat(String(req.query.hours || '')) || 24, 0), MAX_HOURS);
+    const stats = await getGenerationStats(hours * 60 * 60 * 1000);
+    res.status(200).json({ success: true, stats });
+
+  } catch (error) {
+    logger.error('Stats failed', { error });
+    res.status(500).json({ error: 'Failed to load generation stats' });
+  }
+}
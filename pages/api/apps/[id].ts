@@ -0,0 +1,81 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { StoredApp, deleteApp, getApp, isAppId, updateApp, withForkCount } from '../../../lib/storage';
+import { canView, isOwner, toPublicApp } from '../../../lib/owner';
+import { fromAppData, scanAppData } from '../../../lib/stored-app';
+import { generateThumbnail } from '../../../lib/thumbnail';
+import { logger } from '../../../lib/logger';
+import { ModerationFinding, blockingFindings } from '../../../lib/moderation';
+import { limitSaveRequest } from '../../../lib/rate-limit';
+
+// Same cap as /api/save-app, since a PATCH can carry a whole app
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '1mb' }
+  }
+};
+
+// GET a single app with its files; PATCH (update, publish/unpublish) and DELETE are owner-only
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+  if (!isAppId(id)) {
+    return res.status(400).json({ error: 'Invalid app id' });
+  }
+
+  try {
+    const app = await getApp(id);
+    // Unpublished apps look missing to everyone but their owner
+    if (!app || !canView(req, app)) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, app: toPublicApp(await withForkCount(app)), owned: isOwner(req, app) });
+    }
+
+    if (!isOwner(req, app)) {
+      return res.status(403).json({ error: 'Only the owner can change this app' });
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteApp(id);
+      return res.status(200).json({ success: true });
+    }
+
+    const { title, description, published, appData } = req.body || {};
+    if (appData && (!appData.files || !appData.config)) {
+      return res.status(400).json({ error: 'App data with files and config is required' });
+    }
+
+    const findings: ModerationFinding[] = appData ? scanAppData(appData) : [];
+    const blocked = blockingFindings(findings);
+    if (blocked.length) {
+      logger.info('Update rejected by moderation', { rules: blocked.map(finding => finding.rule) });
+      return res.status(422).json({ error: 'App rejected by moderation', findings: blocked });
+    }
+
+    if (appData && !await limitSaveRequest(req, res)) {
+      return;
+    }
+
+    const changes: Partial<StoredApp> = appData
+      ? { ...fromAppData(appData), thumbnail: generateThumbnail(appData) }
+      : {};
+    if (typeof title === 'string' && title.trim()) changes.title = title.trim().slice(0, 120);
+    if (typeof description === 'string') changes.description = description.slice(0, 2000);
+    if (typeof published === 'boolean') changes.published = published;
+
+    const updated = await updateApp(id, changes);
+    if (!updated) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+    res.status(200).json({ success: true, app: toPublicApp(await withForkCount(updated)), owned: true, findings });
+
+  } catch (error) {
+    logger.error('App request failed', { error });
+    res.status(500).json({ error: 'Failed to process app request' });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { importBrandKit } from '../../lib/brand-kit';
+import { requestLogger } from '../../lib/logger';
+
+// Room for a 1 MB logo once base64 encoded
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '1.5mb' }
+  }
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const log = requestLogger(req, res);
+
+  try {
+    const { logo, colors, font, name, dark } = req.body;
+
+    if (logo !== undefined && typeof logo !== 'string') {
+      return res.status(400).json({ error: 'Logo must be a data URL' });
+    }
+    if (colors !== undefined && typeof colors !== 'string' && !Array.isArray(colors)) {
+      return res.status(400).json({ error: 'Colors must be a list or text of hex values' });
+    }
+
+    const result = importBrandKit({
+      logo,
+      colors: Array.isArray(colors) ? colors.filter((color: unknown) => typeof color === 'string') : colors,
+      font: typeof font === 'string' ? font : undefined,
+      name: typeof name === 'string' ? name : undefined,
+      dark: dark === true
+    });
+
+    if ('error' in result) {
+      log.info('Brand kit refused', { error: result.error });
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    log.info('Brand kit imported', { colors: result.palette.length, failingPairs: result.contrast.filter(check => !check.passes).length });
+    res.status(200).json({
+      success: true,
+      ...result
+    });
+
+  } catch (error: any) {
+    log.error('Brand kit import failed', { error });
+    res.status(500).json({ error: 'Failed to import brand kit' });
+  }
+}
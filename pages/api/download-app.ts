@@ -1,5 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { generateCompleteProject } from '../../lib/app-generator';
+import JSZip from 'jszip';
+import { generateSourceFiles, getProjectSlug } from '../../lib/app-generator';
+import { DEFAULT_EXPORT_TARGET, getExportTemplate, isExportTarget } from '../../lib/export-targets';
+import { TypeDiagnostic, formatDiagnostics, typeCheckFiles } from '../../lib/type-check';
+import { logger } from '../../lib/logger';
+
+// UNIX modes for archive entries, including the file type bits
+const FILE_MODE = 0o100644;
+const EXECUTABLE_MODE = 0o100755;
+const DIRECTORY_MODE = 0o40755;
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -7,31 +16,94 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { appData } = req.body;
+    const { appData, acknowledgeTypeErrors, target = DEFAULT_EXPORT_TARGET } = req.body;
+
+    if (!appData?.title || !appData?.code) {
+      return res.status(400).json({ error: 'Missing app data' });
+    }
+    if (!isExportTarget(target)) {
+      return res.status(400).json({ error: `Unknown export target "${target}"` });
+    }
+
+    const template = getExportTemplate(target);
+    const projectSlug = getProjectSlug(appData.title);
+
+    // Broken code only ships when the user has explicitly accepted it; the app's own sources are
+    // checked so every target gets the same verdict
+    const typeCheck = typeCheckFiles(generateSourceFiles(appData));
+    if (!typeCheck.ok && !acknowledgeTypeErrors) {
+      return res.status(422).json({ error: 'Generated code has type errors', typeCheck });
+    }
+    res.setHeader('X-Type-Check', typeCheck.ok ? 'passed' : `failed; errors=${typeCheck.diagnostics.length}`);
+
+    const projectFiles = await template.generate(appData);
 
-    // Generate complete project with our vibe-app stack
-    const projectFiles = await generateCompleteProject(appData);
+    if (template.format === 'html') {
+      const html = Buffer.from(projectFiles['index.html'], 'utf8');
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${projectSlug}.html"`);
+      res.setHeader('Content-Length', html.length);
+      return res.send(html);
+    }
 
-    // Create ZIP file structure
-    const zipData = await createProjectZip(projectFiles);
+    if (!typeCheck.ok) {
+      projectFiles['TYPE_ERRORS.md'] = generateTypeErrorReport(typeCheck.diagnostics);
+    }
+
+    // Create ZIP archive rooted at the project folder
+    const zipData = await createProjectZip(projectSlug, projectFiles);
 
     res.setHeader('Content-Type', 'application/zip');
-    res.setHeader('Content-Disposition', `attachment; filename="${appData.title.replace(/[^a-zA-Z0-9]/g, '-')}-vibe-app.zip"`);
-    
+    res.setHeader('Content-Disposition', `attachment; filename="${projectSlug}-${target === 'bun' ? 'vibe-app' : target}.zip"`);
+    res.setHeader('Content-Length', zipData.length);
+
     res.send(zipData);
 
   } catch (error) {
-    console.error('Download error:', error);
+    logger.error('Download failed', { error });
     res.status(500).json({ error: 'Failed to generate download' });
   }
 }
 
-async function createProjectZip(files: Record<string, string>) {
-  // For now, return a simple text file with all the code
-  // In production, you'd use a proper zip library like JSZip
-  const projectContent = Object.entries(files)
-    .map(([path, content]) => `\n\n=== ${path} ===\n${content}`)
-    .join('');
+async function createProjectZip(projectSlug: string, files: Record<string, string>) {
+  const zip = new JSZip();
+  const date = new Date();
+
+  zip.file(`${projectSlug}/`, null, { dir: true, date, unixPermissions: DIRECTORY_MODE });
+
+  for (const [filePath, content] of Object.entries(files)) {
+    // Register every parent directory explicitly so it gets a proper mode
+    const segments = filePath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const dirPath = `${projectSlug}/${segments.slice(0, i).join('/')}/`;
+      if (!zip.files[dirPath]) {
+        zip.file(dirPath, null, { dir: true, date, unixPermissions: DIRECTORY_MODE });
+      }
+    }
+
+    zip.file(`${projectSlug}/${filePath}`, content, {
+      date,
+      unixPermissions: getFileMode(filePath)
+    });
+  }
+
+  return zip.generateAsync({
+    type: 'nodebuffer',
+    platform: 'UNIX',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 }
+  });
+}
+
+function getFileMode(filePath: string) {
+  return filePath.endsWith('.sh') || filePath.startsWith('bin/') ? EXECUTABLE_MODE : FILE_MODE;
+}
+
+function generateTypeErrorReport(diagnostics: TypeDiagnostic[]) {
+  return `# Type Errors
+
+This project was downloaded with TypeScript errors that still need fixing:
 
-  return Buffer.from(projectContent, 'utf8');
+${formatDiagnostics(diagnostics).map(line => `- \`${line}\``).join('\n')}
+`;
 }
@@ -0,0 +1,127 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { LAYOUTS, THEMES } from '../../lib/app-generator';
+import { GenerateRequest } from '../../lib/generation';
+import { generateAppCached, readCachedApp } from '../../lib/generation-cache';
+import { requestLogger } from '../../lib/logger';
+import { trackGeneration } from '../../lib/metrics';
+import { getRequestProvider, readUserApiKey } from '../../lib/providers';
+import { limitModelRequest, tokenCharger } from '../../lib/rate-limit';
+import { moderateInput } from '../../lib/moderation';
+import { CUSTOM_THEME_ID, parseCustomTheme } from '../../lib/themes';
+import { encodeGenerationEvent, GenerationEvent } from '../../lib/generation-events';
+
+// Streams generation progress as NDJSON: phase and token events, then a final done or error event
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const log = requestLogger(req, res);
+  let metrics: ReturnType<typeof trackGeneration> | null = null;
+
+  const send = (event: GenerationEvent) => {
+    res.write(encodeGenerationEvent(event));
+  };
+
+  try {
+    const { idea, theme, layout, mode, fresh } = req.body;
+    log.info('Starting streamed generation', { theme, layout, mode });
+
+    if (typeof idea !== 'string' || !idea.trim()) {
+      return res.status(400).json({ error: 'Describe the app you want to build' });
+    }
+
+    // Theme and layout are pasted into the prompt and the cache key, so only known values get through
+    if (THEMES.indexOf(theme) === -1 || LAYOUTS.indexOf(layout) === -1) {
+      return res.status(400).json({ error: 'Unknown theme or layout' });
+    }
+
+    const moderation = moderateInput(idea);
+    if (moderation.action === 'reject') {
+      log.info('Idea rejected by moderation', { rules: moderation.findings.map(finding => finding.rule) });
+      return res.status(422).json({ error: 'Idea rejected by moderation', findings: moderation.findings });
+    }
+
+    // A custom theme's settings are written into generated CSS and configs, so malformed ones are refused
+    const customTheme = theme === CUSTOM_THEME_ID ? parseCustomTheme(req.body.customTheme) : undefined;
+    if (customTheme === null) {
+      return res.status(400).json({ error: 'Invalid custom theme' });
+    }
+
+    const userApiKey = readUserApiKey(req.headers);
+    if (userApiKey === null) {
+      return res.status(400).json({ error: 'That does not look like an Anthropic API key' });
+    }
+
+    const provider = getRequestProvider(userApiKey);
+    if (!provider.configured) {
+      return res.status(500).json({ error: 'Missing API key' });
+    }
+
+    const request: GenerateRequest = { idea, theme, layout, mode: mode === 'multi' ? 'multi' : 'single', customTheme };
+    metrics = trackGeneration({
+      kind: 'generate',
+      requestId: log.requestId,
+      provider: provider.id,
+      model: provider.model,
+      theme,
+      layout,
+      mode: request.mode,
+      ownKey: Boolean(userApiKey)
+    }, log);
+    // Cache hits cost nothing, so they are answered before the rate limiter; requests on the caller's own key stay out of the shared cache
+    const cached = fresh || userApiKey ? null : await readCachedApp(request, provider);
+
+    // Limits are checked before the stream starts so a 429 is still a plain JSON response;
+    // callers paying with their own key are not held to the server quota
+    const clientKeys = cached || userApiKey ? [] : await limitModelRequest(req, res);
+    if (!clientKeys) {
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Content-Encoding': 'none', // Keep Next's compression from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+
+    if (cached) {
+      send({ type: 'phase', phase: 'packaging' });
+      send({ type: 'done', app: cached });
+      metrics.succeed(cached.generation, cached.cache);
+      return res.end();
+    }
+
+    const chargeTokens = tokenCharger(clientKeys);
+    const app = await generateAppCached(request, {
+      log,
+      onPhase: (phase) => send({ type: 'phase', phase }),
+      onToken: (text) => send({ type: 'token', text }),
+      onUsage: (usage) => {
+        chargeTokens(usage);
+        metrics?.onUsage(usage);
+      }
+    }, provider, { fresh: Boolean(fresh), private: Boolean(userApiKey) });
+
+    send({ type: 'done', app });
+    metrics.succeed(app.generation, app.cache);
+  } catch (error: any) {
+    if (metrics) {
+      metrics.fail(error);
+    } else {
+      log.error('Streamed generation failed', { error });
+    }
+    const failure = {
+      error: error.status === 401 ? 'The Anthropic API key was rejected' : 'Generation failed',
+      details: error.message
+    };
+    // Failures before the stream opened still get a plain JSON response
+    if (!res.headersSent) {
+      return res.status(error.status === 401 ? 401 : 500).json(failure);
+    }
+    send({ type: 'error', ...failure });
+  }
+
+  res.end();
+}
@@ -1,428 +1,106 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import { LAYOUTS, THEMES } from '../../lib/app-generator';
+import { GenerateRequest } from '../../lib/generation';
+import { generateAppCached, readCachedApp } from '../../lib/generation-cache';
+import { requestLogger } from '../../lib/logger';
+import { trackGeneration } from '../../lib/metrics';
+import { getRequestProvider, readUserApiKey } from '../../lib/providers';
+import { limitModelRequest, tokenCharger } from '../../lib/rate-limit';
+import { moderateInput } from '../../lib/moderation';
+import { CUSTOM_THEME_ID, parseCustomTheme } from '../../lib/themes';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const log = requestLogger(req, res);
+  let metrics: ReturnType<typeof trackGeneration> | null = null;
+
   try {
-    const { idea, theme, layout } = req.body;
-    console.log('🚀 Starting fast generation for:', { theme, layout });
+    const { idea, theme, layout, mode, fresh } = req.body;
+    log.info('Starting generation', { theme, layout, mode });
 
-    if (!process.env.ANTHROPIC_API_KEY) {
-      return res.status(500).json({ error: 'Missing API key' });
+    if (typeof idea !== 'string' || !idea.trim()) {
+      return res.status(400).json({ error: 'Describe the app you want to build' });
     }
 
-    const { default: Anthropic } = await import('@anthropic-ai/sdk');
-    const anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    });
-
-    // ENHANCED: Create functional, interactive apps
-    const appPrompt = `Create a functional ${theme} React app: "${idea}"
-
-Requirements: React hooks, Tailwind CSS, working features, ${layout} layout
-Theme: ${theme} (${getThemeDescription(theme)})
+    // Theme and layout are pasted into the prompt and the cache key, so only known values get through
+    if (THEMES.indexOf(theme) === -1 || LAYOUTS.indexOf(layout) === -1) {
+      return res.status(400).json({ error: 'Unknown theme or layout' });
+    }
 
-Return ONLY this JSON structure:
-{
-  "title": "App Name",
-  "description": "Brief description",
-  "code": {
-    "App.tsx": "// Complete React component with useState, useEffect, and working functionality"
-  },
-  "config": {
-    "theme": "${theme}",
-    "layout": "${layout}",
-    "features": ["interactive", "functional"]
-  }
-}
+    const moderation = moderateInput(idea);
+    if (moderation.action === 'reject') {
+      log.info('Idea rejected by moderation', { rules: moderation.findings.map(finding => finding.rule) });
+      return res.status(422).json({ error: 'Idea rejected by moderation', findings: moderation.findings });
+    }
 
-Make it actually work with real interactivity, not placeholders.`;
+    // A custom theme's settings are written into generated CSS and configs, so malformed ones are refused
+    const customTheme = theme === CUSTOM_THEME_ID ? parseCustomTheme(req.body.customTheme) : undefined;
+    if (customTheme === null) {
+      return res.status(400).json({ error: 'Invalid custom theme' });
+    }
 
-    console.log('⚡ Making fast API call...');
-    
-    // SPEED FIX: Set timeout and reduce tokens
-    const startTime = Date.now();
-    
-    // FIX: Properly type the Promise.race result
-    const response = await Promise.race([
-      anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4000, // INCREASED: Allow longer responses for complex apps
-        messages: [{ role: 'user', content: appPrompt }]
-      }),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('API timeout')), 35000) // INCREASED: 35 seconds for complex apps
-      )
-    ]);
+    const userApiKey = readUserApiKey(req.headers);
+    if (userApiKey === null) {
+      return res.status(400).json({ error: 'That does not look like an Anthropic API key' });
+    }
 
-    const duration = Date.now() - startTime;
-    console.log(`✅ API call completed in ${duration}ms`);
+    const provider = getRequestProvider(userApiKey);
+    if (!provider.configured) {
+      return res.status(500).json({ error: 'Missing API key' });
+    }
 
-    // FIX: Now TypeScript knows response has content property
-    const textContent = response.content.find(
-      (block): block is any => block.type === 'text'
-    );
+    const request: GenerateRequest = { idea, theme, layout, mode: mode === 'multi' ? 'multi' : 'single', customTheme };
+    metrics = trackGeneration({
+      kind: 'generate',
+      requestId: log.requestId,
+      provider: provider.id,
+      model: provider.model,
+      theme,
+      layout,
+      mode: request.mode,
+      ownKey: Boolean(userApiKey)
+    }, log);
+
+    // Cache hits cost nothing, so they skip the rate limiter; requests on the caller's own key stay out of the shared cache
+    const cached = fresh || userApiKey ? null : await readCachedApp(request, provider);
+    if (cached) {
+      metrics.succeed(cached.generation, cached.cache);
+      return res.status(200).json({ success: true, app: cached });
+    }
 
-    if (!textContent) {
-      throw new Error('No response from Claude');
+    // Callers paying with their own key are not held to the server quota
+    const clientKeys = userApiKey ? [] : await limitModelRequest(req, res);
+    if (!clientKeys) {
+      return;
     }
 
-    let appData;
-    try {
-      console.log('🔍 Raw Claude response:', textContent.text);
-      
-      // More robust JSON extraction
-      let cleanText = textContent.text;
-      
-      // Try to find JSON block
-      const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        cleanText = jsonMatch[0];
-      } else {
-        // Fallback: remove markdown formatting
-        cleanText = cleanText
-          .replace(/```json\n?/g, '')
-          .replace(/```\n?/g, '')
-          .replace(/^[^{]*/, '') // Remove everything before first {
-          .replace(/[^}]*$/, '') // Remove everything after last }
-          .trim();
-      }
-      
-      console.log('🧹 Cleaned text:', cleanText);
-      
-      appData = JSON.parse(cleanText);
-      console.log('✅ Successfully parsed JSON:', appData);
-      
-      // Validate required fields
-      if (!appData.title || !appData.code || !appData.code['App.tsx']) {
-        throw new Error('Missing required fields in AI response');
+    const chargeTokens = tokenCharger(clientKeys);
+    const app = await generateAppCached(request, {
+      log,
+      onUsage: (usage) => {
+        chargeTokens(usage);
+        metrics?.onUsage(usage);
       }
-      
-      // Check if the App.tsx code looks complete (not truncated)
-      const appCode = appData.code['App.tsx'];
-      if (!appCode.includes('export default function App') || !appCode.includes('return (') || !appCode.includes(');')) {
-        throw new Error('App.tsx code appears to be truncated');
-      }
-      
-    } catch (parseError) {
-      console.log('❌ JSON parse error:', parseError.message);
-      console.log('🔍 Raw response that failed to parse:', textContent.text);
-      console.log('⚡ Using fast fallback generation');
-      // SPEED FIX: Fast fallback if JSON parsing fails
-      appData = generateFastFallback(idea, theme, layout);
-    }
-    
-    // SPEED FIX: Minimal file generation
-    const projectFiles = {
-      'package.json': JSON.stringify({
-        name: appData.title?.toLowerCase().replace(/[^a-zA-Z0-9]/g, '-') || 'vibe-app',
-        version: '1.0.0',
-        scripts: { dev: 'bun run --hot src/index.tsx' },
-        dependencies: { hono: '^3.12.0', react: '^18.2.0', 'react-dom': '^18.2.0' }
-      }, null, 2),
-      'src/App.tsx': appData.code?.['App.tsx'] || generateFunctionalApp(idea, theme, layout),
-      'README.md': `# ${appData.title || 'Vibe App'}\n\n${appData.description || idea}`
-    };
+    }, provider, { fresh: Boolean(fresh), private: Boolean(userApiKey) });
+    metrics.succeed(app.generation, app.cache);
 
-    console.log('🔒 DESTROYING API KEY REFERENCE');
-    
     res.status(200).json({
       success: true,
-      app: {
-        ...appData,
-        files: projectFiles,
-        timestamp: Date.now(),
-        id: Math.random().toString(36).substring(2, 15),
-        generationTime: duration
-      }
+      app
     });
 
   } catch (error: any) {
-    console.error('❌ Fast generation error:', error.message);
-    
-    // SPEED FIX: Always return something, even if AI fails
-    if (error.message === 'API timeout') {
-      const { idea, theme, layout } = req.body;
-      const fallbackApp = generateFastFallback(idea, theme, layout);
-      
-      res.status(200).json({
-        success: true,
-        app: {
-          ...fallbackApp,
-          files: {
-            'package.json': '{"name": "fallback-app", "version": "1.0.0"}',
-            'src/App.tsx': generateFunctionalApp(idea, theme, layout),
-            'README.md': `# Fallback App\n\n${idea}`
-          },
-          timestamp: Date.now(),
-          id: 'fallback-' + Math.random().toString(36).substring(2, 8),
-          fallback: true
-        }
-      });
+    if (metrics) {
+      metrics.fail(error);
     } else {
-      res.status(500).json({ 
-        error: 'Generation failed',
-        details: error.message
-      });
+      log.error('Generation failed', { error });
     }
+    res.status(error.status === 401 ? 401 : 500).json({
+      error: error.status === 401 ? 'The Anthropic API key was rejected' : 'Generation failed',
+      details: error.message
+    });
   }
 }
-
-// ENHANCED: Fast fallback generation with real functionality
-function generateFastFallback(idea: string, theme: string, layout: string) {
-  const titles: Record<string, string> = {
-    minimal: 'Clean',
-    playful: 'Fun',
-    professional: 'Pro',
-    artistic: 'Creative',
-    techy: 'Tech'
-  };
-
-  return {
-    title: `${titles[theme] || 'Modern'} ${idea.split(' ').slice(0, 3).join(' ')} App`,
-    description: `A functional ${theme} app for ${idea}`,
-    code: {
-      'App.tsx': generateFunctionalApp(idea, theme, layout)
-    },
-    config: { theme, layout, features: ['interactive', 'functional', 'responsive'] }
-  };
-}
-
-// ENHANCED: Generate functional app with real interactivity
-function generateFunctionalApp(idea: string, theme: string, layout: string) {
-  const gradients: Record<string, string> = {
-    minimal: 'from-gray-100 to-white',
-    playful: 'from-pink-100 via-purple-50 to-indigo-100',
-    professional: 'from-blue-50 to-indigo-100',
-    artistic: 'from-orange-100 to-red-100',
-    techy: 'from-emerald-50 to-teal-100'
-  };
-
-  const textColors: Record<string, string> = {
-    minimal: 'text-gray-900',
-    playful: 'text-purple-900',
-    professional: 'text-blue-900',
-    artistic: 'text-orange-900',
-    techy: 'text-emerald-900'
-  };
-
-  const buttonColors: Record<string, string> = {
-    minimal: 'bg-gray-600 hover:bg-gray-700',
-    playful: 'bg-purple-600 hover:bg-purple-700',
-    professional: 'bg-blue-600 hover:bg-blue-700',
-    artistic: 'bg-orange-600 hover:bg-orange-700',
-    techy: 'bg-emerald-600 hover:bg-emerald-700'
-  };
-
-  const cols: Record<string, string> = {
-    single: '1',
-    dual: '2',
-    triple: '3',
-    quad: '4'
-  };
-
-  const colCount = parseInt(cols[layout] || '3');
-
-  return `import React, { useState, useEffect } from 'react';
-
-export default function App() {
-  const [items, setItems] = useState([]);
-  const [inputValue, setInputValue] = useState('');
-  const [count, setCount] = useState(0);
-  const [isLoading, setIsLoading] = useState(false);
-
-  // Simulate data loading
-  useEffect(() => {
-    setIsLoading(true);
-    setTimeout(() => {
-      setItems([
-        { id: 1, name: 'Sample Item 1', status: 'active' },
-        { id: 2, name: 'Sample Item 2', status: 'pending' },
-        { id: 3, name: 'Sample Item 3', status: 'completed' }
-      ]);
-      setIsLoading(false);
-    }, 1000);
-  }, []);
-
-  const handleAddItem = () => {
-    if (inputValue.trim()) {
-      const newItem = {
-        id: Date.now(),
-        name: inputValue,
-        status: 'active'
-      };
-      setItems([...items, newItem]);
-      setInputValue('');
-      setCount(count + 1);
-    }
-  };
-
-  const handleRemoveItem = (id) => {
-    setItems(items.filter(item => item.id !== id));
-    setCount(Math.max(0, count - 1));
-  };
-
-  const handleToggleStatus = (id) => {
-    setItems(items.map(item => 
-      item.id === id 
-        ? { ...item, status: item.status === 'active' ? 'completed' : 'active' }
-        : item
-    ));
-  };
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br ${gradients[theme]} p-8">
-      <div className="max-w-6xl mx-auto">
-        <header className="text-center mb-12">
-          <h1 className="text-4xl font-bold ${textColors[theme]} mb-4">
-            ${idea.slice(0, 50)}${idea.length > 50 ? '...' : ''}
-          </h1>
-          <p className="${textColors[theme]} opacity-70 text-lg mb-6">
-            A functional ${theme} app with real interactivity
-          </p>
-          <div className="flex justify-center space-x-4 mb-8">
-            <div className="bg-white/80 backdrop-blur-sm rounded-lg px-4 py-2">
-              <span className="${textColors[theme]} font-semibold">Items: {items.length}</span>
-            </div>
-            <div className="bg-white/80 backdrop-blur-sm rounded-lg px-4 py-2">
-              <span className="${textColors[theme]} font-semibold">Actions: {count}</span>
-            </div>
-          </div>
-        </header>
-        
-        <div className="grid grid-cols-1 md:grid-cols-${colCount} gap-6">
-          {/* Input Section */}
-          <div className="bg-white/80 backdrop-blur-sm rounded-xl p-6 shadow-lg border border-white/50">
-            <h3 className="font-semibold ${textColors[theme]} mb-4">Add New Item</h3>
-            <div className="space-y-3">
-              <input
-                type="text"
-                value={inputValue}
-                onChange={(e) => setInputValue(e.target.value)}
-                placeholder="Enter item name..."
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-${theme === 'minimal' ? 'gray' : theme === 'playful' ? 'purple' : theme === 'professional' ? 'blue' : theme === 'artistic' ? 'orange' : 'emerald'}-500"
-                onKeyPress={(e) => e.key === 'Enter' && handleAddItem()}
-              />
-              <button
-                onClick={handleAddItem}
-                className="w-full ${buttonColors[theme]} text-white px-4 py-2 rounded-lg transition-all hover:scale-105"
-              >
-                Add Item
-              </button>
-            </div>
-          </div>
-
-          {/* Items List */}
-          <div className="bg-white/80 backdrop-blur-sm rounded-xl p-6 shadow-lg border border-white/50">
-            <h3 className="font-semibold ${textColors[theme]} mb-4">Items List</h3>
-            {isLoading ? (
-              <div className="text-center py-4">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 ${buttonColors[theme].split(' ')[0]} mx-auto"></div>
-                <p className="${textColors[theme]} mt-2">Loading...</p>
-              </div>
-            ) : (
-              <div className="space-y-2 max-h-64 overflow-y-auto">
-                {items.map((item) => (
-                  <div key={item.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
-                    <div className="flex items-center space-x-2">
-                      <span className="text-sm ${textColors[theme]}">{item.name}</span>
-                      <span className={\`text-xs px-2 py-1 rounded-full \${
-                        item.status === 'active' ? 'bg-green-100 text-green-800' : 
-                        item.status === 'completed' ? 'bg-blue-100 text-blue-800' : 
-                        'bg-yellow-100 text-yellow-800'
-                      }\`}>
-                        {item.status}
-                      </span>
-                    </div>
-                    <div className="flex space-x-1">
-                      <button
-                        onClick={() => handleToggleStatus(item.id)}
-                        className="text-xs px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
-                      >
-                        Toggle
-                      </button>
-                      <button
-                        onClick={() => handleRemoveItem(item.id)}
-                        className="text-xs px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600"
-                      >
-                        Remove
-                      </button>
-                    </div>
-                  </div>
-                ))}
-                {items.length === 0 && (
-                  <p className="${textColors[theme]} opacity-70 text-center py-4">No items yet. Add some above!</p>
-                )}
-              </div>
-            )}
-          </div>
-
-          {/* Stats Section */}
-          <div className="bg-white/80 backdrop-blur-sm rounded-xl p-6 shadow-lg border border-white/50">
-            <h3 className="font-semibold ${textColors[theme]} mb-4">Statistics</h3>
-            <div className="space-y-3">
-              <div className="flex justify-between">
-                <span className="${textColors[theme]}">Total Items:</span>
-                <span className="font-semibold ${textColors[theme]}">{items.length}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="${textColors[theme]}">Active Items:</span>
-                <span className="font-semibold ${textColors[theme]}">{items.filter(i => i.status === 'active').length}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="${textColors[theme]}">Completed:</span>
-                <span className="font-semibold ${textColors[theme]}">{items.filter(i => i.status === 'completed').length}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="${textColors[theme]}">Actions Taken:</span>
-                <span className="font-semibold ${textColors[theme]}">{count}</span>
-              </div>
-            </div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-}`;
-}
-
-// Add missing getThemeDescription function
-function getThemeDescription(theme: string) {
-  const descriptions: Record<string, string> = {
-    minimal: 'clean, simple, and elegant design',
-    playful: 'fun, colorful, and engaging interface',
-    professional: 'business-focused, clean, and trustworthy',
-    artistic: 'creative, expressive, and visually striking',
-    techy: 'modern, technical, and innovative look'
-  };
-  return descriptions[theme] || 'modern and clean design';
-}
-
-function getThemeGradient(theme: string) {
-  const gradients: Record<string, string> = {
-    minimal: 'from-gray-100 to-white',
-    playful: 'from-pink-100 to-purple-100',
-    professional: 'from-blue-50 to-indigo-100',
-    artistic: 'from-orange-100 to-red-100',
-    techy: 'from-emerald-50 to-teal-100'
-  };
-  return gradients[theme] || 'from-gray-100 to-white';
-}
-
-function getThemeText(theme: string) {
-  const colors: Record<string, string> = {
-    minimal: 'text-gray-900',
-    playful: 'text-purple-900',
-    professional: 'text-blue-900',
-    artistic: 'text-orange-900',
-    techy: 'text-emerald-900'
-  };
-  return colors[theme] || 'text-gray-900';
-}
-
-function getLayoutCols(layout: string) {
-  const cols: Record<string, string> = { single: '1', dual: '2', triple: '3', quad: '4' };
-  return cols[layout] || '3';
-}
\ No newline at end of file
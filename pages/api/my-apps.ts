@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { listOwnerApps } from '../../lib/storage';
+import { getOwnerId } from '../../lib/owner';
+import { toGalleryItem } from '../../lib/gallery';
+import { logger } from '../../lib/logger';
+
+// GET the current session's saved apps, including unpublished ones
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const ownerId = getOwnerId(req);
+  if (!ownerId) {
+    return res.status(200).json({ success: true, apps: [] });
+  }
+
+  try {
+    const apps = await listOwnerApps(ownerId);
+    res.status(200).json({ success: true, apps: apps.map(toGalleryItem) });
+
+  } catch (error) {
+    logger.error('Failed to list owner apps', { error });
+    res.status(500).json({ error: 'Failed to fetch your apps' });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { clientKeys, getQuotaStatus } from '../../lib/rate-limit';
+import { logger } from '../../lib/logger';
+
+// GET the caller's remaining generation requests and daily model tokens
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const quota = await getQuotaStatus(clientKeys(req, res));
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json({ success: true, quota });
+
+  } catch (error) {
+    logger.error('Quota lookup failed', { error });
+    res.status(500).json({ error: 'Failed to read quota' });
+  }
+}
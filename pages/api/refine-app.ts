@@ -0,0 +1,92 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { refineApp } from '../../lib/generation';
+import { requestLogger } from '../../lib/logger';
+import { trackGeneration } from '../../lib/metrics';
+import { getRequestProvider, readUserApiKey } from '../../lib/providers';
+import { limitModelRequest, tokenCharger } from '../../lib/rate-limit';
+import { moderateInput } from '../../lib/moderation';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const log = requestLogger(req, res);
+  let metrics: ReturnType<typeof trackGeneration> | null = null;
+
+  try {
+    const { app, instruction, history } = req.body;
+
+    if (!app?.files || typeof instruction !== 'string' || !instruction.trim()) {
+      return res.status(400).json({ error: 'An app and a change request are required' });
+    }
+
+    const moderation = moderateInput(instruction);
+    if (moderation.action === 'reject') {
+      log.info('Change request rejected by moderation', { rules: moderation.findings.map(finding => finding.rule) });
+      return res.status(422).json({ error: 'Change request rejected by moderation', findings: moderation.findings });
+    }
+
+    const userApiKey = readUserApiKey(req.headers);
+    if (userApiKey === null) {
+      return res.status(400).json({ error: 'That does not look like an Anthropic API key' });
+    }
+
+    const provider = getRequestProvider(userApiKey);
+    if (!provider.configured) {
+      return res.status(500).json({ error: 'Missing API key' });
+    }
+
+    // Callers paying with their own key are not held to the server quota
+    const clientKeys = userApiKey ? [] : await limitModelRequest(req, res);
+    if (!clientKeys) {
+      return;
+    }
+
+    log.info('Refining app', { files: Object.keys(app.files).length });
+    metrics = trackGeneration({
+      kind: 'refine',
+      requestId: log.requestId,
+      provider: provider.id,
+      model: provider.model,
+      theme: app.config?.theme,
+      layout: app.config?.layout,
+      ownKey: Boolean(userApiKey)
+    }, log);
+
+    const chargeTokens = tokenCharger(clientKeys);
+    const result = await refineApp({
+      app,
+      instruction: instruction.trim(),
+      history: Array.isArray(history) ? history.filter(item => typeof item === 'string') : []
+    }, {
+      log,
+      onUsage: (usage) => {
+        chargeTokens(usage);
+        metrics?.onUsage(usage);
+      }
+    }, provider);
+    metrics.succeed(result.generation);
+
+    res.status(200).json({
+      success: true,
+      app: result.app,
+      summary: result.summary,
+      generation: result.generation
+    });
+
+  } catch (error: any) {
+    if (metrics) {
+      metrics.fail(error);
+    } else {
+      log.error('Refinement failed', { error });
+    }
+    if (error.status === 401) {
+      return res.status(401).json({ error: 'The Anthropic API key was rejected' });
+    }
+    res.status(error.message === 'API timeout' ? 504 : 502).json({
+      error: 'Refinement failed',
+      details: error.message
+    });
+  }
+}
@@ -1,5 +1,18 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { put, list } from '@vercel/blob';
+import { getApp, isAppId, saveApp } from '../../lib/storage';
+import { canView, ensureOwnerId } from '../../lib/owner';
+import { fromAppData, scanAppData } from '../../lib/stored-app';
+import { generateThumbnail } from '../../lib/thumbnail';
+import { logger } from '../../lib/logger';
+import { blockingFindings } from '../../lib/moderation';
+import { limitSaveRequest } from '../../lib/rate-limit';
+
+// Generated apps are tens of KB, so anything larger is not one the builder produced
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '1mb' }
+  }
+};
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -7,74 +20,45 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { title, appData } = req.body;
+    const { title, appData, idea, forkedFrom } = req.body;
 
-    const publicApp = {
-      id: generateAppId(),
-      title,
-      theme: appData.config.theme,
-      layout: appData.config.layout,
-      description: appData.description,
-      thumbnail: await generateThumbnail(appData),
-      files: appData.files,
-      createdAt: new Date().toISOString(),
-      featured: false
-    };
+    if (!appData?.files || !appData?.config) {
+      return res.status(400).json({ error: 'App data with files and config is required' });
+    }
 
-    // Save to Vercel Blob
-    const blob = await put(`apps/${publicApp.id}.json`, JSON.stringify(publicApp), {
-      access: 'public'
-    });
+    // Saved apps are served to everyone, so their code gets the same scan as generated code
+    const findings = scanAppData(appData);
+    const blocked = blockingFindings(findings);
+    if (blocked.length) {
+      logger.info('Save rejected by moderation', { rules: blocked.map(finding => finding.rule) });
+      return res.status(422).json({ error: 'App rejected by moderation', findings: blocked });
+    }
+
+    if (!await limitSaveRequest(req, res)) {
+      return;
+    }
 
-    // Update public apps list
-    const appsListBlob = await put('public-apps.json', 
-      JSON.stringify(await getUpdatedAppsList(publicApp)), {
-      access: 'public'
+    // Remixes keep a link back to the app they started from
+    const source = isAppId(forkedFrom) ? await getApp(forkedFrom) : null;
+    const parent = source && canView(req, source) ? source : null;
+
+    const publicApp = await saveApp({
+      ...fromAppData(appData),
+      title: title || appData.title,
+      thumbnail: generateThumbnail(appData),
+      ownerId: ensureOwnerId(req, res),
+      idea: typeof idea === 'string' ? idea.slice(0, 2000) : undefined,
+      forkedFrom: parent ? { id: parent.id, title: parent.title } : undefined
     });
 
     res.status(200).json({
       success: true,
       appId: publicApp.id,
-      url: blob.url
+      findings
     });
 
   } catch (error) {
-    console.error('Save error:', error);
+    logger.error('Save failed', { error });
     res.status(500).json({ error: 'Failed to save app' });
   }
 }
-
-async function getUpdatedAppsList(newApp) {
-  try {
-    const currentList = await fetch(`${process.env.VERCEL_URL}/public-apps.json`);
-    const apps = await currentList.json();
-    return [newApp, ...apps].slice(0, 50); // Keep latest 50 apps
-  } catch {
-    return [newApp];
-  }
-}
-
-async function generateThumbnail(appData) {
-  // Generate a simple SVG thumbnail based on theme/layout
-  const { theme, layout } = appData.config;
-  const colors = {
-    minimal: '#f8f9fa',
-    playful: '#ff6b9d', 
-    professional: '#3b82f6',
-    artistic: '#f59e0b',
-    techy: '#10b981'
-  };
-
-  return `data:image/svg+xml,${encodeURIComponent(`
-    <svg width="200" height="120" xmlns="http://www.w3.org/2000/svg">
-      <rect width="200" height="120" fill="${colors[theme]}"/>
-      <text x="100" y="60" text-anchor="middle" fill="white" font-size="14" font-family="Arial">
-        ${appData.title}
-      </text>
-    </svg>
-  `)}`;
-}
-
-function generateAppId() {
-  return Math.random().toString(36).substring(2, 15);
-}
@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { typeCheckFiles } from '../../lib/type-check';
+import { logger } from '../../lib/logger';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { files } = req.body;
+
+    if (!files || typeof files !== 'object') {
+      return res.status(400).json({ error: 'Missing files' });
+    }
+
+    res.status(200).json({
+      success: true,
+      typeCheck: typeCheckFiles(files)
+    });
+
+  } catch (error: any) {
+    logger.error('Type check failed', { error });
+    res.status(500).json({ error: 'Failed to type-check files' });
+  }
+}
@@ -0,0 +1,31 @@
+import type { GetServerSideProps } from 'next'
+import Head from 'next/head'
+import PublishedApp from '../../components/PublishedApp'
+import { getApp, withForkCount } from '../../lib/storage'
+import { canView, isOwner, toPublicApp } from '../../lib/owner'
+import type { StoredApp } from '../../lib/storage/types'
+
+interface AppPageProps {
+  app: StoredApp
+  owned: boolean
+}
+
+export default function AppPage({ app, owned }: AppPageProps) {
+  return (
+    <>
+      <Head>
+        <title>{`${app.title} - VibeCherry`}</title>
+        <meta name="description" content={app.description} />
+      </Head>
+      <PublishedApp app={app} owned={owned} />
+    </>
+  )
+}
+
+export const getServerSideProps: GetServerSideProps<AppPageProps> = async ({ params, req }) => {
+  const app = await getApp(String(params?.id || ''))
+  if (!app || !canView(req, app)) {
+    return { notFound: true }
+  }
+  return { props: { app: toPublicApp(await withForkCount(app)), owned: isOwner(req, app) } }
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react'
+import type { GetServerSideProps } from 'next'
+import Head from 'next/head'
+import SandboxPreview from '../../components/SandboxPreview'
+import { getApp } from '../../lib/storage'
+import { toPublicApp } from '../../lib/owner'
+import type { StoredApp } from '../../lib/storage/types'
+
+interface EmbedPageProps {
+  app: StoredApp
+}
+
+// Chrome-free live app for iframes in docs and slides
+export default function EmbedPage({ app }: EmbedPageProps) {
+  // The sandbox document carries a random nonce, so it is only built in the browser
+  const [mounted, setMounted] = useState(false)
+  useEffect(() => setMounted(true), [])
+
+  return (
+    <>
+      <Head>
+        <title>{app.title}</title>
+      </Head>
+      <div className="h-screen w-screen bg-white relative">
+        {mounted && <SandboxPreview files={app.files || {}} height="100vh" showConsole={false} />}
+        <a
+          href={`/app/${app.id}`}
+          target="_blank"
+          rel="noreferrer"
+          className="absolute bottom-2 right-2 text-xs bg-black bg-opacity-70 text-white px-2 py-1 rounded"
+        >
+          Made with VibeCherry
+        </a>
+      </div>
+    </>
+  )
+}
+
+export const getServerSideProps: GetServerSideProps<EmbedPageProps> = async ({ params, res }) => {
+  const app = await getApp(String(params?.id || ''))
+  if (!app || app.published === false) {
+    return { notFound: true }
+  }
+
+  // Any site may frame the embed
+  res.setHeader('Content-Security-Policy', 'frame-ancestors *')
+  return { props: { app: toPublicApp(app) } }
+}
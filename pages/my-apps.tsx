@@ -0,0 +1,13 @@
+import Head from 'next/head'
+import MyApps from '../components/MyApps'
+
+export default function MyAppsPage() {
+  return (
+    <>
+      <Head>
+        <title>My Apps - VibeCherry</title>
+      </Head>
+      <MyApps />
+    </>
+  )
+}